@@ -0,0 +1,49 @@
+// functions/adminRoles.js
+
+const { HttpsError } = require('firebase-functions/v2/https');
+const admin = require('firebase-admin');
+
+/**
+ * Admin roles checked by callables, matching the roles the admin app
+ * requires (routes.tsx). The end-user apps share this Firebase project, so
+ * being signed in is not enough: callers must have an adminUsers document
+ * with one of the roles.
+ */
+
+// Every admin app role; read-only callables such as export downloads
+const ADMIN_APP_ROLES = ['superadmin', 'admin', 'editor', 'viewer'];
+
+// Roles that may change codes (canEditCodes in the admin app)
+const CODE_EDITOR_ROLES = ['superadmin', 'admin', 'editor'];
+
+// Roles that may purge batches and manage printer vendors
+const ADMIN_ROLES = ['superadmin', 'admin'];
+
+/**
+ * Check that the caller has one of the allowed admin roles
+ * @param {{uid: string}} auth Callable auth context
+ * @param {string[]} allowedRoles Roles that may make the call
+ * @param {string} action What the caller is doing, for the error message
+ * @returns {Promise<string[]>} The caller's roles
+ * @throws {HttpsError} permission-denied when the caller has none of the roles
+ */
+async function requireAdminRole(auth, allowedRoles, action) {
+  const userDoc = await admin.firestore().collection('adminUsers').doc(auth.uid).get();
+  const roles = userDoc.exists ? userDoc.data().assignedRoles || [] : [];
+
+  if (!roles.some(role => allowedRoles.includes(role))) {
+    throw new HttpsError(
+      'permission-denied',
+      `You do not have permission to ${action}`
+    );
+  }
+
+  return roles;
+}
+
+module.exports = {
+  ADMIN_APP_ROLES,
+  ADMIN_ROLES,
+  CODE_EDITOR_ROLES,
+  requireAdminRole,
+};
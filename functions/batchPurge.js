@@ -0,0 +1,357 @@
+// functions/batchPurge.js
+
+const crypto = require('crypto');
+const { HttpsError } = require('firebase-functions/v2/https');
+const logger = require('firebase-functions/logger');
+const admin = require('firebase-admin');
+const { defineInt } = require('firebase-functions/params');
+const {
+  codeCountUpdates,
+  recordBatchStatusChange,
+  recordCodeCountChanges,
+} = require('./counters');
+const { deleteCodeHistory } = require('./codeHistory');
+const { ADMIN_ROLES, requireAdminRole } = require('./adminRoles');
+
+// Shared code lifecycle (ES module)
+const codeLifecycleModule = import('./shared/codeLifecycle.mjs');
+
+/**
+ * Days an archived (soft-deleted) batch stays in the trash before the purge
+ * deletes it and its codes for good
+ */
+const batchPurgeDays = defineInt('BATCH_PURGE_DAYS', {
+  default: 30,
+  description: 'Days to keep deleted batches in the trash before they are purged',
+});
+
+// Codes deleted per transaction (one page)
+const PURGE_PAGE_SIZE = 400;
+
+// Time a purge run may spend before it stops at a checkpoint; the callable
+// and the scheduled sweep both have well over this before timing out
+const PURGE_TIME_BUDGET_MS = 240 * 1000;
+
+// A 'deleting' batch without a checkpoint for this long is resumed by the sweep
+const PURGE_STALE_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * Thrown when another run has taken over a purge
+ */
+class PurgeLeaseLostError extends Error {}
+
+/**
+ * When a batch archived now will be purged
+ * @returns {FirebaseFirestore.Timestamp} Purge date
+ */
+function getPurgeAfter() {
+  return admin.firestore.Timestamp.fromMillis(
+    Date.now() + batchPurgeDays.value() * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Number of codes in a batch that are held by users (assigned, activated
+ * or reported lost)
+ * @param {string} batchId Batch ID
+ * @param {object} batchData Batch document data
+ * @returns {Promise<number>} Assigned code count
+ */
+async function countAssignedCodes(batchId, batchData) {
+  const { ASSIGNED_CODE_STATUSES } = await codeLifecycleModule;
+
+  if (batchData.codeCounts) {
+    return ASSIGNED_CODE_STATUSES.reduce(
+      (sum, status) => sum + (batchData.codeCounts[status] || 0),
+      0
+    );
+  }
+
+  // Batches from before stored counters
+  const snapshot = await admin.firestore().collection('stickerCodes')
+    .where('batchId', '==', batchId)
+    .where('status', 'in', ASSIGNED_CODE_STATUSES)
+    .count()
+    .get();
+  return snapshot.data().count;
+}
+
+/**
+ * Whether a 'deleting' batch has a purge run that is still checkpointing
+ * @param {object} batchData Batch document data
+ * @returns {boolean} Whether the run is live
+ */
+function isPurgeLive(batchData) {
+  const heartbeat = batchData.purgeHeartbeatAt?.toMillis() || 0;
+  return Date.now() - heartbeat < PURGE_STALE_AFTER_MS;
+}
+
+/**
+ * Claim a batch for a purge run: move it from the trash to 'deleting', or
+ * take over a 'deleting' batch whose previous run stopped checkpointing
+ * @param {FirebaseFirestore.DocumentReference} batchRef Batch to purge
+ * @param {string} runId ID of the claiming run
+ * @returns {Promise<boolean>} Whether the run holds the purge
+ */
+async function claimPurge(batchRef, runId) {
+  const db = admin.firestore();
+
+  return db.runTransaction(async (transaction) => {
+    const batchDoc = await transaction.get(batchRef);
+    if (!batchDoc.exists) {
+      return false;
+    }
+
+    const batchData = batchDoc.data();
+    if (batchData.status === 'deleting' && isPurgeLive(batchData)) {
+      return false;
+    }
+    if (batchData.status !== 'archived' && batchData.status !== 'deleting') {
+      return false;
+    }
+
+    const codeCounts = batchData.codeCounts;
+    const update = {
+      status: 'deleting',
+      purgeRunId: runId,
+      purgeHeartbeatAt: admin.firestore.FieldValue.serverTimestamp()
+    };
+    if (batchData.status === 'archived') {
+      update.deletedCount = 0;
+      update.deleteTotal = codeCounts
+        ? Object.values(codeCounts).reduce((sum, count) => sum + count, 0)
+        : batchData.generatedCount || 0;
+    }
+
+    transaction.update(batchRef, update);
+    recordBatchStatusChange(transaction, batchData.status, 'deleting');
+    return true;
+  });
+}
+
+/**
+ * Delete one page of a batch's codes, checkpointing the progress on the
+ * batch in the same transaction. The page's code history goes first, so a
+ * run stopped in between only leaves codes without history to delete.
+ * Once no codes are left the batch itself is deleted.
+ * @param {FirebaseFirestore.DocumentReference} batchRef Batch being purged
+ * @param {string} runId ID of the run holding the purge
+ * @returns {Promise<number>} Codes deleted; 0 once the batch is gone
+ * @throws {PurgeLeaseLostError} When another run has taken over
+ */
+async function purgeCodesPage(batchRef, runId) {
+  const db = admin.firestore();
+  const codesQuery = db.collection('stickerCodes')
+    .where('batchId', '==', batchRef.id)
+    .limit(PURGE_PAGE_SIZE);
+
+  const pageSnapshot = await codesQuery.select().get();
+  await deleteCodeHistory(pageSnapshot.docs.map(doc => doc.ref));
+
+  return db.runTransaction(async (transaction) => {
+    const batchDoc = await transaction.get(batchRef);
+    if (!batchDoc.exists || batchDoc.data().purgeRunId !== runId) {
+      throw new PurgeLeaseLostError(`Purge of batch ${batchRef.id} was taken over`);
+    }
+
+    const codesSnapshot = await transaction.get(codesQuery);
+
+    if (codesSnapshot.empty) {
+      // Finally, delete the batch document
+      transaction.delete(batchRef);
+      recordBatchStatusChange(transaction, 'deleting', null);
+      return 0;
+    }
+
+    const removed = {};
+    codesSnapshot.docs.forEach(doc => {
+      const codeStatus = doc.data().status;
+      removed[codeStatus] = (removed[codeStatus] || 0) - 1;
+      transaction.delete(doc.ref);
+    });
+
+    recordCodeCountChanges(transaction, removed);
+    transaction.update(batchRef, {
+      ...(batchDoc.data().codeCounts ? codeCountUpdates(removed) : {}),
+      deletedCount: admin.firestore.FieldValue.increment(codesSnapshot.size),
+      purgeHeartbeatAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+    return codesSnapshot.size;
+  });
+}
+
+/**
+ * Delete a batch and its codes page by page until done or the deadline.
+ * A run that stops early leaves the batch 'deleting' with its progress;
+ * the sweep resumes it once the checkpoints go stale.
+ * @param {FirebaseFirestore.DocumentReference} batchRef Batch to purge
+ * @param {number} deadline Time (ms) to stop at
+ * @returns {Promise<{completed: boolean, claimed: boolean}>} Outcome
+ */
+async function purgeBatch(batchRef, deadline) {
+  const runId = crypto.randomUUID();
+
+  if (!await claimPurge(batchRef, runId)) {
+    return { completed: false, claimed: false };
+  }
+
+  try {
+    while (Date.now() < deadline) {
+      const deleted = await purgeCodesPage(batchRef, runId);
+      if (deleted === 0) {
+        logger.info(`Batch ${batchRef.id} purged`);
+        return { completed: true, claimed: true };
+      }
+    }
+  } catch (error) {
+    if (error instanceof PurgeLeaseLostError) {
+      logger.warn(error.message);
+      return { completed: false, claimed: true };
+    }
+    throw error;
+  }
+
+  logger.info(`Purge of batch ${batchRef.id} stopped at its time budget; it will be resumed`);
+  return { completed: false, claimed: true };
+}
+
+/**
+ * Resume purges that stopped (timeouts, crashes) and purge archived batches
+ * whose time in the trash is up. A batch that has assigned codes again
+ * (assigned after it was archived) is skipped unless it was archived with
+ * the assigned-codes override.
+ * @returns {Promise<{purged: number, unfinished: number, skipped: number}>} Counts for the log
+ */
+async function purgeArchivedBatches() {
+  const db = admin.firestore();
+  const deadline = Date.now() + PURGE_TIME_BUDGET_MS;
+  const batchesRef = db.collection('stickerBatches');
+
+  const deletingSnapshot = await batchesRef.where('status', '==', 'deleting').get();
+  const expiredSnapshot = await batchesRef
+    .where('status', '==', 'archived')
+    .where('purgeAfter', '<=', admin.firestore.Timestamp.now())
+    .get();
+
+  let purged = 0;
+  let unfinished = 0;
+  let skipped = 0;
+
+  for (const batchDoc of [...deletingSnapshot.docs, ...expiredSnapshot.docs]) {
+    const batchData = batchDoc.data();
+
+    if (Date.now() >= deadline) {
+      unfinished++;
+      continue;
+    }
+    if (batchData.status === 'deleting' && isPurgeLive(batchData)) {
+      continue;
+    }
+
+    try {
+      if (batchData.status === 'archived') {
+        const assignedCount = await countAssignedCodes(batchDoc.id, batchData);
+        if (assignedCount > 0 && !batchData.assignedOverride) {
+          logger.warn(`Not purging batch ${batchDoc.id}: ${assignedCount} codes are assigned`);
+          skipped++;
+          continue;
+        }
+      }
+
+      const { completed } = await purgeBatch(batchDoc.ref, deadline);
+      if (completed) {
+        purged++;
+      } else {
+        unfinished++;
+      }
+    } catch (err) {
+      logger.error(`Failed to purge batch ${batchDoc.id}:`, err);
+    }
+  }
+
+  return { purged, unfinished, skipped };
+}
+
+/**
+ * Handler for permanently deleting a batch from the trash. Deletion that
+ * does not finish within the time budget continues in the background.
+ */
+async function purgeBatchHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to delete batch'
+    );
+  }
+
+  // Validate input
+  const { batchId } = data;
+  if (!batchId) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Batch ID is required'
+    );
+  }
+  await requireAdminRole(context.auth, ADMIN_ROLES, 'permanently delete batches');
+
+  const db = admin.firestore();
+  const batchRef = db.collection('stickerBatches').doc(batchId);
+
+  try {
+    const batchDoc = await batchRef.get();
+    if (!batchDoc.exists) {
+      throw new HttpsError(
+        'not-found',
+        'Batch not found'
+      );
+    }
+
+    const batchData = batchDoc.data();
+    if (batchData.status !== 'archived' && batchData.status !== 'deleting') {
+      throw new HttpsError(
+        'failed-precondition',
+        'Only batches in the trash can be deleted permanently'
+      );
+    }
+
+    if (batchData.status === 'archived') {
+      const assignedCount = await countAssignedCodes(batchId, batchData);
+      if (assignedCount > 0 && !batchData.assignedOverride) {
+        throw new HttpsError(
+          'failed-precondition',
+          `${assignedCount} codes in this batch are assigned to users`,
+          { assignedCount }
+        );
+      }
+    }
+
+    const { completed } = await purgeBatch(batchRef, Date.now() + PURGE_TIME_BUDGET_MS);
+
+    return {
+      success: true,
+      completed,
+      message: completed
+        ? 'Batch and all associated codes deleted successfully'
+        : 'Deletion is in progress and continues in the background'
+    };
+  } catch (error) {
+    logger.error('Error purging batch:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error deleting batch: ' + error.message,
+      error
+    );
+  }
+}
+
+module.exports = {
+  getPurgeAfter,
+  countAssignedCodes,
+  purgeBatch,
+  purgeArchivedBatches,
+  purgeBatchHandler,
+};
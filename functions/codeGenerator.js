@@ -4,92 +4,709 @@
 const { HttpsError } = require('firebase-functions/v2/https');
 const logger = require('firebase-functions/logger');
 const admin = require('firebase-admin');
-const path = require('path');
-const os = require('os');
-const fs = require('fs');
+const { finished } = require('stream/promises');
+const {
+  codeCountUpdates,
+  recordBatchStatusChange,
+  recordCodeCountChanges,
+} = require('./counters');
+const { getScannerUrl, renderStickerSheetPdf, resolveSheetLayout } = require('./stickerSheets');
+const { writeCodesWorkbook } = require('./excelExport');
+const { EXPORT_FILE_TYPES, writeCsv, writeJson } = require('./exportStreams');
+const {
+  ENCRYPTED_FILE_TYPES,
+  createEncryptedSink,
+  generateExportPassword,
+  getEncryptedFileName
+} = require('./exportEncryption');
+const { loadVendorKey } = require('./printerVendors');
+const { countAssignedCodes, getPurgeAfter } = require('./batchPurge');
+const { buildManifest, createHashTap, signManifest } = require('./exportManifest');
+const { getCapacityError, getKeyspaceCapacity } = require('./keyspaceCapacity');
+const {
+  ADMIN_APP_ROLES,
+  ADMIN_ROLES,
+  CODE_EDITOR_ROLES,
+  requireAdminRole
+} = require('./adminRoles');
 
 // Batch size for Firestore writes
 const BATCH_SIZE = 500;
 
-// Allowed characters for code generation
-const ALLOWED_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Removed I, O, 0, 1 to avoid confusion
+// Shared code generation module (ES module, loaded once per instance)
+const codeGenerationModule = import('./shared/codeGeneration.mjs');
+const codeExportsModule = import('./shared/codeExports.mjs');
+
+// Rounds of regeneration allowed when candidates collide with existing codes
+const MAX_COLLISION_ROUNDS = 10;
+
+// Stop generating before the 300s function timeout so progress can be
+// checkpointed and the lease released; the batch is then resumed
+const GENERATION_TIME_BUDGET_MS = 270 * 1000;
+
+// Codes read per page while streaming an export, and how often the
+// export's progress is written to its codeExports document
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_PROGRESS_INTERVAL_MS = 2000;
 
 /**
- * Generate a random string for code generation
- * @param {number} length Length of the random string
- * @returns {string} Random string
+ * Change a batch's status and update the global batch counters with it
+ * @param {FirebaseFirestore.DocumentReference} batchRef Batch document
+ * @param {string} status New status
+ * @param {object} fields Other batch fields to update
+ * @returns {Promise<void>}
  */
-function generateRandomString(length) {
-  let result = '';
-  const charsLength = ALLOWED_CHARS.length;
-  
-  for (let i = 0; i < length; i++) {
-    result += ALLOWED_CHARS.charAt(Math.floor(Math.random() * charsLength));
+async function updateBatchStatus(batchRef, status, fields = {}) {
+  const db = admin.firestore();
+
+  await db.runTransaction(async (transaction) => {
+    const batchDoc = await transaction.get(batchRef);
+    if (!batchDoc.exists) {
+      return;
+    }
+
+    transaction.update(batchRef, { ...fields, status });
+    recordBatchStatusChange(transaction, batchDoc.data().status, status);
+  });
+}
+
+/**
+ * Claim the generation lease on a batch.
+ * A batch can be claimed when it is generating without a live run (new,
+ * or its last checkpoint is stale), or - when allowFailed is set - when it
+ * failed. Only the run holding the lease may write codes for the batch.
+ * @param {FirebaseFirestore.DocumentReference} batchRef Batch document
+ * @param {string} runId ID of the run claiming the batch
+ * @param {boolean} allowFailed Whether failed batches may be resumed
+ * @returns {Promise<object>} The batch data at the time of the claim
+ */
+async function claimGeneration(batchRef, runId, allowFailed) {
+  const db = admin.firestore();
+  const { GENERATION_STALE_AFTER_MS } = await codeGenerationModule;
+
+  return db.runTransaction(async (transaction) => {
+    const batchDoc = await transaction.get(batchRef);
+
+    if (!batchDoc.exists) {
+      throw new HttpsError(
+        'not-found',
+        'Batch not found'
+      );
+    }
+
+    const batchData = batchDoc.data();
+
+    if (['completed', 'archived', 'deleting'].includes(batchData.status) ||
+      (batchData.status === 'failed' && !allowFailed)) {
+      throw new HttpsError(
+        'failed-precondition',
+        `Batch already in ${batchData.status} state`
+      );
+    }
+
+    const heartbeat = batchData.generationHeartbeatAt?.toMillis() || 0;
+    const isLive = batchData.generationRunId &&
+      Date.now() - heartbeat < GENERATION_STALE_AFTER_MS;
+
+    if (batchData.status === 'generating' && isLive) {
+      throw new HttpsError(
+        'failed-precondition',
+        'Batch generation is already running'
+      );
+    }
+
+    transaction.update(batchRef, {
+      status: 'generating',
+      generationRunId: runId,
+      generationHeartbeatAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastError: null
+    });
+    recordBatchStatusChange(transaction, batchData.status, 'generating');
+
+    return batchData;
+  });
+}
+
+/**
+ * Create unique codes for a batch without overwriting existing ones.
+ * Each round draws fresh candidates and creates them inside a transaction
+ * that first reads them, so a code that already exists (or is created
+ * concurrently) is skipped and replaced in the next round instead of being
+ * overwritten. Progress is committed in the same transaction and never
+ * exceeds the batch quantity, so a resumed run cannot over-generate.
+ * @param {FirebaseFirestore.DocumentReference} batchRef Batch document
+ * @param {object} batchData Batch document data
+ * @param {number} count Number of codes to create (at most BATCH_SIZE)
+ * @param {string} runId ID of the run holding the generation lease
+ * @returns {Promise<string[]>} The created codes
+ */
+async function createUniqueCodes(batchRef, batchData, count, runId) {
+  const db = admin.firestore();
+  const { buildCode, generateRandomString } = await codeGenerationModule;
+  const { prefix, codeLength, includeCheckDigit = false, checkDigitVersion } = batchData;
+  const created = [];
+
+  for (let round = 0; round < MAX_COLLISION_ROUNDS && created.length < count; round++) {
+    // Draw distinct candidates for the codes still missing
+    const candidates = new Set();
+    while (candidates.size < count - created.length) {
+      const randomPart = generateRandomString(codeLength);
+      candidates.add(buildCode(prefix, randomPart, includeCheckDigit, checkDigitVersion));
+    }
+
+    const refs = Array.from(candidates).map(code => db.collection('stickerCodes').doc(code));
+
+    const fresh = await db.runTransaction(async (transaction) => {
+      const [batchSnap, ...snapshots] = await transaction.getAll(batchRef, ...refs);
+      const current = batchSnap.data();
+
+      // Another run took over this batch; stop without writing
+      if (!current || current.generationRunId !== runId) {
+        throw new HttpsError(
+          'aborted',
+          'Batch generation was taken over by another run'
+        );
+      }
+
+      const remaining = current.quantity - (current.generatedCount || 0);
+      const newCodes = [];
+
+      snapshots.forEach((snap, index) => {
+        if (snap.exists || newCodes.length >= remaining) {
+          return;
+        }
+        transaction.create(refs[index], {
+          batchId: batchRef.id,
+          status: 'available',
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          productType: batchData.productType || null
+        });
+        newCodes.push(refs[index].id);
+      });
+
+      // Checkpoint progress and counters together with the codes
+      transaction.update(batchRef, {
+        generatedCount: admin.firestore.FieldValue.increment(newCodes.length),
+        generationHeartbeatAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...codeCountUpdates({ available: newCodes.length })
+      });
+      recordCodeCountChanges(transaction, { available: newCodes.length });
+
+      return newCodes;
+    });
+
+    if (fresh.length < refs.length) {
+      logger.warn(`${refs.length - fresh.length} code collisions with prefix ${prefix}, retrying`);
+    }
+
+    created.push(...fresh);
   }
-  
-  return result;
+
+  if (created.length < count) {
+    throw new HttpsError(
+      'resource-exhausted',
+      `Keyspace exhausted for prefix ${prefix} with code length ${codeLength}`
+    );
+  }
+
+  return created;
 }
 
 /**
- * Generate unique codes for a batch
- * @param {string} prefix Code prefix
- * @param {number} codeLength Length of random part
- * @param {number} count Number of codes to generate
- * @returns {Promise<string[]>} Array of unique codes
+ * Generate the missing codes of a batch, starting from its checkpoint
+ * @param {string} batchId Batch ID
+ * @param {boolean} allowFailed Whether a failed batch may be resumed
+ * @returns {Promise<object>} Whether generation completed and the progress
  */
-async function generateUniqueCodesForBatch(prefix, codeLength, count) {
+async function runBatchGeneration(batchId, allowFailed) {
   const db = admin.firestore();
-  const codes = new Set();
-  const existingCodes = new Set();
-  
-  // Query existing codes with this prefix to avoid duplicates
-  // Use a compound query for efficiency
-  const prefixEnd = prefix + '~'; // '~' is higher in ASCII than any allowed character
-  
-  const snapshot = await db.collection('stickerCodes')
-    .where(admin.firestore.FieldPath.documentId(), '>=', prefix)
-    .where(admin.firestore.FieldPath.documentId(), '<', prefixEnd)
-    .get();
-  
-  snapshot.forEach(doc => {
-    existingCodes.add(doc.id);
+  const batchRef = db.collection('stickerBatches').doc(batchId);
+  const startedAt = Date.now();
+  const { CHECK_DIGIT_VERSIONS, generateRunId, getKeyspaceSize } = await codeGenerationModule;
+  const runId = generateRunId();
+
+  try {
+    const batchData = await claimGeneration(batchRef, runId, allowFailed);
+    const { prefix, codeLength, quantity } = batchData;
+    // Batches without a version predate the Luhn check digit
+    const checkDigitVersion = batchData.checkDigitVersion || CHECK_DIGIT_VERSIONS.LEGACY;
+
+    // Refuse batches larger than the keyspace for this prefix
+    const keyspaceSize = getKeyspaceSize(codeLength);
+    if (quantity > keyspaceSize) {
+      throw new HttpsError(
+        'resource-exhausted',
+        `Code length ${codeLength} only allows ${keyspaceSize} codes per prefix`
+      );
+    }
+
+    // Refuse new batches that would crowd the keyspace past the threshold;
+    // resumed batches already hold their codes
+    if (!batchData.generatedCount) {
+      const capacity = await getKeyspaceCapacity(prefix, codeLength, quantity, batchId);
+      if (!capacity.allowed) {
+        throw new HttpsError('resource-exhausted', getCapacityError(capacity, prefix, codeLength));
+      }
+    }
+
+    // Generate and write codes in chunks, continuing from the checkpoint
+    let generatedCount = batchData.generatedCount || 0;
+    logger.info(`Generating ${quantity - generatedCount} of ${quantity} codes ` +
+      `with prefix ${prefix} and length ${codeLength} (run ${runId})`);
+
+    const generationData = { ...batchData, checkDigitVersion };
+
+    while (generatedCount < quantity) {
+      if (Date.now() - startedAt > GENERATION_TIME_BUDGET_MS) {
+        // Release the lease so the batch can be resumed right away
+        await batchRef.update({
+          generationRunId: null,
+          generationHeartbeatAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        logger.info(`Batch ${batchId} paused at ${generatedCount}/${quantity} codes`);
+        return { success: true, completed: false, generatedCount, quantity };
+      }
+
+      const chunkSize = Math.min(BATCH_SIZE, quantity - generatedCount);
+      const codes = await createUniqueCodes(batchRef, generationData, chunkSize, runId);
+      generatedCount += codes.length;
+
+      logger.info(`Committed batch of ${codes.length} codes, total: ${generatedCount}/${quantity}`);
+    }
+
+    // Mark batch as completed
+    await updateBatchStatus(batchRef, 'completed', {
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      generatedCount,
+      generationRunId: null
+    });
+
+    logger.info(`Batch ${batchId} completed successfully`);
+
+    return { success: true, completed: true, generatedCount, quantity };
+  } catch (error) {
+    logger.error('Error generating code batch:', error);
+
+    // Mark batch as failed, unless another run owns it or it was never claimed
+    const ownedByOtherRun = error instanceof HttpsError &&
+      ['aborted', 'failed-precondition', 'not-found'].includes(error.code);
+
+    if (!ownedByOtherRun) {
+      try {
+        await updateBatchStatus(batchRef, 'failed', {
+          generationRunId: null,
+          lastError: error.message || 'Unknown error'
+        });
+      } catch (updateError) {
+        logger.error('Error updating batch status to failed:', updateError);
+      }
+    }
+
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    throw new HttpsError(
+      'internal',
+      'Error generating codes',
+      error.message
+    );
+  }
+}
+
+// Failed runs allowed for a generation job before it is given up
+const MAX_JOB_FAILURES = 3;
+
+// Errors that retrying the same job cannot fix
+const NON_RETRIABLE_ERRORS = ['aborted', 'failed-precondition', 'not-found', 'resource-exhausted'];
+
+/**
+ * Mirror a generation job update onto its batch (batch.generationJob)
+ * so status, attempts and errors are visible from the batch alone
+ * @param {string} jobId Job ID
+ * @param {string} batchId Batch the job generates
+ * @param {object} update Job fields that were updated
+ * @returns {Promise<void>}
+ */
+async function mirrorGenerationJob(jobId, batchId, update) {
+  const db = admin.firestore();
+  const batchUpdate = {};
+  Object.entries(update).forEach(([key, value]) => {
+    batchUpdate[`generationJob.${key}`] = value;
   });
+
+  try {
+    await db.collection('stickerBatches').doc(batchId).update(batchUpdate);
+  } catch (error) {
+    // The batch may have been deleted while the job was queued
+    logger.warn(`Could not mirror job ${jobId} onto batch ${batchId}:`, error.message);
+  }
+}
+
+/**
+ * Update a generation job and mirror the change onto its batch
+ * @param {FirebaseFirestore.DocumentReference} jobRef Job document
+ * @param {string} batchId Batch the job generates
+ * @param {object} fields Job fields to update
+ * @returns {Promise<void>}
+ */
+async function updateGenerationJob(jobRef, batchId, fields) {
+  const update = {
+    ...fields,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  };
+
+  await jobRef.update(update);
+  await mirrorGenerationJob(jobRef.id, batchId, update);
+}
+
+/**
+ * Queue a generation job for a batch. A job that is still queued or
+ * running blocks a new one unless it has gone stale, in which case it is
+ * closed as abandoned and replaced.
+ * @param {string} batchId Batch ID
+ * @param {string} userId User queueing the job
+ * @param {boolean} allowFailed Whether a failed batch may be queued again
+ * @returns {Promise<object>} The queued job ID
+ */
+async function enqueueGenerationJob(batchId, userId, allowFailed) {
+  const db = admin.firestore();
+  const batchRef = db.collection('stickerBatches').doc(batchId);
+  const jobRef = db.collection('generationJobs').doc();
+  const { GENERATION_STALE_AFTER_MS } = await codeGenerationModule;
+
+  await db.runTransaction(async (transaction) => {
+    const batchDoc = await transaction.get(batchRef);
+
+    if (!batchDoc.exists) {
+      throw new HttpsError(
+        'not-found',
+        'Batch not found'
+      );
+    }
+
+    const batchData = batchDoc.data();
+
+    if (['completed', 'archived', 'deleting'].includes(batchData.status) ||
+      (batchData.status === 'failed' && !allowFailed)) {
+      throw new HttpsError(
+        'failed-precondition',
+        `Batch already in ${batchData.status} state`
+      );
+    }
+
+    const activeJob = batchData.generationJob;
+    if (activeJob && (activeJob.status === 'queued' || activeJob.status === 'running')) {
+      const lastActivity = Math.max(
+        activeJob.updatedAt?.toMillis() || 0,
+        batchData.generationHeartbeatAt?.toMillis() || 0
+      );
+
+      if (Date.now() - lastActivity < GENERATION_STALE_AFTER_MS) {
+        throw new HttpsError(
+          'failed-precondition',
+          `Batch generation is already ${activeJob.status}`
+        );
+      }
+
+      transaction.update(db.collection('generationJobs').doc(activeJob.id), {
+        status: 'failed',
+        lastError: 'Abandoned: no progress before a new job was queued',
+        finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const job = {
+      batchId,
+      status: 'queued',
+      attempts: 0,
+      failures: 0,
+      lastError: null,
+      createdBy: userId,
+      createdAt: now,
+      startedAt: null,
+      finishedAt: null,
+      updatedAt: now
+    };
+
+    transaction.set(jobRef, job);
+    transaction.update(batchRef, {
+      generationJob: {
+        id: jobRef.id,
+        status: job.status,
+        attempts: job.attempts,
+        lastError: job.lastError,
+        createdAt: now,
+        startedAt: null,
+        finishedAt: null,
+        updatedAt: now
+      }
+    });
+  });
+
+  logger.info(`Queued generation job ${jobRef.id} for batch ${batchId}`);
+
+  return { success: true, jobId: jobRef.id };
+}
+
+/**
+ * Handler for batch code generation (queues a generation job)
+ */
+exports.generateCodeBatchHandler = async (data, context) => {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to generate codes'
+    );
+  }
+
+  // Validate input
+  const { batchId } = data;
+  if (!batchId) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Batch ID is required'
+    );
+  }
+
+  return enqueueGenerationJob(batchId, context.auth.uid, false);
+};
+
+/**
+ * Handler for resuming a stuck or failed batch from its checkpoint
+ * (queues a new generation job)
+ */
+exports.resumeCodeBatchHandler = async (data, context) => {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to resume code generation'
+    );
+  }
+
+  // Validate input
+  const { batchId } = data;
+  if (!batchId) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Batch ID is required'
+    );
+  }
+  await requireAdminRole(context.auth, CODE_EDITOR_ROLES, 'resume code generation');
+
+  logger.info(`Resuming batch ${batchId} for ${context.auth.uid}`);
+
+  return enqueueGenerationJob(batchId, context.auth.uid, true);
+};
+
+/**
+ * Worker for the generationJobs queue, triggered on every job write.
+ * Only queued jobs are processed. A run that reaches the time budget
+ * re-queues its job, which triggers the next run from the checkpoint.
+ */
+exports.processGenerationJobHandler = async (event) => {
+  const after = event.data?.after;
+  if (!after?.exists || after.data().status !== 'queued') {
+    return null;
+  }
+
+  const db = admin.firestore();
+  const jobRef = after.ref;
+
+  // Claim the job; duplicate trigger deliveries find it no longer queued
+  const claim = await db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists || jobDoc.data().status !== 'queued') {
+      return null;
+    }
+
+    const job = jobDoc.data();
+    const update = {
+      status: 'running',
+      attempts: (job.attempts || 0) + 1,
+      startedAt: job.startedAt || admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    };
+
+    transaction.update(jobRef, update);
+    return { job, update };
+  });
+
+  if (!claim) {
+    return null;
+  }
+
+  const { job } = claim;
+  await mirrorGenerationJob(jobRef.id, job.batchId, claim.update);
+
+  try {
+    const result = await runBatchGeneration(job.batchId, true);
+
+    if (result.completed) {
+      await updateGenerationJob(jobRef, job.batchId, {
+        status: 'completed',
+        finishedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    } else {
+      // Out of time: queue the next run, which continues from the checkpoint
+      await updateGenerationJob(jobRef, job.batchId, { status: 'queued' });
+    }
+  } catch (error) {
+    const failures = (job.failures || 0) + 1;
+    const retriable = !(error instanceof HttpsError && NON_RETRIABLE_ERRORS.includes(error.code));
+    const lastError = error.message || 'Unknown error';
+
+    logger.error(`Generation job ${jobRef.id} failed (failure ${failures}):`, error);
+
+    if (retriable && failures < MAX_JOB_FAILURES) {
+      await updateGenerationJob(jobRef, job.batchId, { status: 'queued', failures, lastError });
+    } else {
+      await updateGenerationJob(jobRef, job.batchId, {
+        status: 'failed',
+        failures,
+        lastError,
+        finishedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the export row for one code
+ * @param {string} code Code (document ID)
+ * @param {object} codeData Code document data
+ * @param {object[]} columns Export columns
+ * @returns {object} Row keyed by column key; dates stay Date objects
+ */
+function buildExportRow(code, codeData, columns) {
+  const row = {};
+  columns.forEach(column => {
+    if (column.key === 'code') {
+      row.code = code;
+    } else if (column.key === 'url') {
+      row.url = getScannerUrl(code);
+    } else if (column.type === 'date') {
+      row[column.key] = codeData[column.key]?.toDate() || null;
+    } else {
+      row[column.key] = codeData[column.key] ?? null;
+    }
+  });
+  return row;
+}
+
+/**
+ * Page through the codes of an export, applying the date range filter.
+ * Pages are read in document ID order so memory stays bounded.
+ * @param {FirebaseFirestore.Query} codesQuery Codes query (batch and status filters)
+ * @param {object} options Normalized export options
+ * @param {{scannedCount: number, exportedCount: number}} progress Updated as codes are read
+ * @param {function(): Promise<void>} onPage Called after every page
+ * @returns {AsyncGenerator<object>} Export rows
+ */
+async function* exportRows(codesQuery, options, progress, onPage) {
+  const { columns, createdFrom, createdTo } = options;
+  let lastDoc = null;
   
-  logger.info(`Found ${existingCodes.size} existing codes with prefix ${prefix}`);
-  
-  // Generate unique codes
-  while (codes.size < count) {
-    const randomPart = generateRandomString(codeLength);
-    const fullCode = `${prefix}${randomPart}`;
+  for (;;) {
+    let pageQuery = codesQuery
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(EXPORT_PAGE_SIZE);
+    if (lastDoc) {
+      pageQuery = pageQuery.startAfter(lastDoc);
+    }
+    
+    const snapshot = await pageQuery.get();
+    if (snapshot.empty) {
+      return;
+    }
     
-    // Check if code already exists
-    if (!existingCodes.has(fullCode) && !codes.has(fullCode)) {
-      codes.add(fullCode);
+    for (const doc of snapshot.docs) {
+      const codeData = doc.data();
+      const createdAt = codeData.createdAt?.toDate() || null;
+      progress.scannedCount++;
+      
+      // Date range filtered here: a createdAt range next to the batchId
+      // filter would need a composite index
+      if ((createdFrom && (!createdAt || createdAt < createdFrom)) ||
+          (createdTo && (!createdAt || createdAt > createdTo))) {
+        continue;
+      }
+      
+      progress.exportedCount++;
+      yield buildExportRow(doc.id, codeData, columns);
     }
     
-    // Log progress for long running operations
-    if (codes.size % 1000 === 0 && codes.size > 0) {
-      logger.info(`Generated ${codes.size}/${count} unique codes`);
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    await onPage();
+    
+    if (snapshot.size < EXPORT_PAGE_SIZE) {
+      return;
     }
   }
-  
-  return Array.from(codes);
 }
 
 /**
- * Handler for batch code generation
+ * Map an async iterable
+ * @param {AsyncIterable<*>} items Source items
+ * @param {function(*): *} transform Mapping function
+ * @returns {AsyncGenerator<*>} Mapped items
+ */
+async function* mapRows(items, transform) {
+  for await (const item of items) {
+    yield transform(item);
+  }
+}
+
+/**
+ * Expected number of exported codes, from the batch's stored counters
+ * @param {object} batchData Batch document data
+ * @param {string[]|null} statuses Status filter
+ * @returns {number} Upper bound of the export size (date range not applied)
+ */
+function estimateExportCount(batchData, statuses) {
+  if (!batchData.codeCounts) {
+    return batchData.generatedCount || 0;
+  }
+  return Object.entries(batchData.codeCounts)
+    .filter(([status]) => !statuses || statuses.includes(status))
+    .reduce((total, [, count]) => total + (count || 0), 0);
+}
+
+/**
+ * Generate a signed download URL for an export file (valid for 1 hour)
+ * @param {import('@google-cloud/storage').File} file Export file
+ * @returns {Promise<string>} Signed URL
+ */
+async function getExportDownloadUrl(file) {
+  const [signedUrl] = await file.getSignedUrl({
+    action: 'read',
+    expires: Date.now() + 60 * 60 * 1000 // 1 hour
+  });
+  return signedUrl;
+}
+
+/**
+ * Handler for code export
  */
-exports.generateCodeBatchHandler = async (data, context) => {
+exports.exportCodesHandler = async (data, context) => {
   // Validate authentication
   if (!context.auth) {
     throw new HttpsError(
       'unauthenticated',
-      'Authentication required to generate codes'
+      'Authentication required to export codes'
     );
   }
   
   // Validate input
-  const { batchId } = data;
+  const { batchId, sheet = {} } = data;
+  const userId = context.auth.uid;
+  
   if (!batchId) {
     throw new HttpsError(
       'invalid-argument',
@@ -97,7 +714,27 @@ exports.generateCodeBatchHandler = async (data, context) => {
     );
   }
   
+  const { normalizeExportOptions } = await codeExportsModule;
+  let options;
+  try {
+    options = normalizeExportOptions(data);
+  } catch (error) {
+    throw new HttpsError('invalid-argument', error.message);
+  }
+  const { format, columns, statuses } = options;
+  const { createdFrom, createdTo, encryption } = options;
+  
+  let layout = null;
+  if (format === 'pdf') {
+    try {
+      layout = await resolveSheetLayout(sheet);
+    } catch (error) {
+      throw new HttpsError('invalid-argument', error.message);
+    }
+  }
+  
   const db = admin.firestore();
+  const bucket = admin.storage().bucket();
   
   try {
     // Get batch details
@@ -112,109 +749,249 @@ exports.generateCodeBatchHandler = async (data, context) => {
     }
     
     const batchData = batchDoc.data();
-    const { prefix, codeLength, quantity } = batchData;
     
-    // Check if already completed or failed
-    if (batchData.status === 'completed' || batchData.status === 'failed') {
-      throw new HttpsError(
-        'failed-precondition',
-        `Batch already in ${batchData.status} state`
-      );
+    // Encryption key material; the ZIP password is returned once and never stored
+    let vendorKey = null;
+    let password = null;
+    if (encryption.mode === 'pgp') {
+      try {
+        vendorKey = await loadVendorKey(encryption.vendorId);
+      } catch (error) {
+        throw new HttpsError(
+          'failed-precondition',
+          'Printer vendor key cannot be used for encryption: ' + error.message
+        );
+      }
+      if (!vendorKey) {
+        throw new HttpsError(
+          'not-found',
+          'Printer vendor not found'
+        );
+      }
+    } else if (encryption.mode === 'zip') {
+      password = generateExportPassword();
     }
     
-    // Generate codes
-    logger.info(`Generating ${quantity} codes with prefix ${prefix} and length ${codeLength}`);
+    // Codes in the batch, filtered by status (paged through while streaming)
+    let codesQuery = db.collection('stickerCodes')
+      .where('batchId', '==', batchId);
+    if (statuses) {
+      codesQuery = codesQuery.where('status', 'in', statuses);
+    }
     
-    const codes = await generateUniqueCodesForBatch(prefix, codeLength, quantity);
-    logger.info(`Generated ${codes.length} unique codes`);
+    const fileType = EXPORT_FILE_TYPES[format];
+    const plainFileName = `${fileType.prefix}_${batchId}_${Date.now()}.${fileType.extension}`;
+    const encrypted = encryption.mode !== 'none';
+    const fileName = encrypted
+      ? getEncryptedFileName(encryption.mode, plainFileName)
+      : plainFileName;
+    const storagePath = `exports/${userId}/${fileName}`;
     
-    // Write codes to Firestore in batches
-    let generatedCount = 0;
+    // Taken before any code is read: codes changed after it may differ from the file
+    const exportedAt = new Date().toISOString();
     
-    for (let i = 0; i < codes.length; i += BATCH_SIZE) {
-      const batch = db.batch();
-      const codeBatch = codes.slice(i, i + BATCH_SIZE);
-      
-      for (const code of codeBatch) {
-        const codeRef = db.collection('stickerCodes').doc(code);
-        batch.set(codeRef, {
-          batchId,
-          status: 'available',
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          productType: batchData.productType || null
+    // Track the export in Firestore, with progress while it runs
+    const exportRef = db.collection('codeExports').doc();
+    await exportRef.set({
+      batchId,
+      batchName: batchData.name,
+      userId,
+      userEmail: context.auth.token?.email || null,
+      fileName,
+      format,
+      columns: columns.map(column => column.key),
+      statuses,
+      createdFrom,
+      createdTo,
+      storagePath,
+      encryption: vendorKey
+        ? {
+          mode: encryption.mode,
+          vendorId: vendorKey.vendor.id,
+          vendorName: vendorKey.vendor.name || null,
+          keyFingerprint: vendorKey.publicKey.getFingerprint().toUpperCase()
+        }
+        : { mode: encryption.mode },
+      // Confirmed by the client once it has the ZIP password; without it
+      // the retention cleanup fails the export and deletes the file
+      passwordReceived: password ? false : null,
+      status: 'running',
+      totalCount: estimateExportCount(batchData, statuses),
+      exportedCount: 0,
+      fileSize: null,
+      codeCount: null,
+      error: null,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      finishedAt: null
+    });
+    
+    // Stream straight into Firebase Storage
+    const file = bucket.file(storagePath);
+    const output = file.createWriteStream({
+      contentType: encrypted ? ENCRYPTED_FILE_TYPES[encryption.mode].contentType : fileType.contentType,
+      metadata: {
+        metadata: {
+          batchId: batchId,
+          exportedBy: userId,
+          exportTime: exportedAt
+        }
+      }
+    });
+    const uploaded = finished(output);
+    uploaded.catch(() => {}); // Awaited below; errors also reject pending writes
+    
+    // Hash the stored file and, when encrypted, the plain export for the manifest
+    const fileTap = createHashTap(output);
+    let contentTap = fileTap;
+    
+    try {
+      if (encrypted) {
+        const encryptedSink = await createEncryptedSink(encryption.mode, fileTap.stream, {
+          entryName: plainFileName,
+          password,
+          publicKey: vendorKey?.publicKey
         });
+        contentTap = createHashTap(encryptedSink);
+      }
+      // Writers below write the plain export
+      const sink = contentTap.stream;
+      
+      const progress = { scannedCount: 0, exportedCount: 0 };
+      let lastProgressAt = Date.now();
+      const rows = exportRows(codesQuery, options, progress, async () => {
+        if (Date.now() - lastProgressAt < EXPORT_PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        lastProgressAt = Date.now();
+        await exportRef.update({ exportedCount: progress.exportedCount });
+      });
+      
+      switch (format) {
+        case 'csv':
+          await writeCsv(sink, rows, columns);
+          break;
+          
+        case 'json':
+          await writeJson(sink, rows, {
+            batchId,
+            batchName: batchData.name,
+            exportedAt
+          });
+          break;
+          
+        case 'excel':
+          await writeCodesWorkbook(sink, { batchId, batchData, rows, columns });
+          break;
+          
+        case 'pdf':
+          await renderStickerSheetPdf(sink, mapRows(rows, row => row.code), layout);
+          break;
+      }
+      
+      await uploaded;
+      
+      logger.info(`Exported ${progress.exportedCount} codes from batch ${batchId}`);
+      
+      if (progress.exportedCount === 0) {
+        throw new HttpsError(
+          'not-found',
+          progress.scannedCount === 0 ? 'No codes found in this batch' : 'No codes match the export filters'
+        );
       }
       
-      await batch.commit();
-      generatedCount += codeBatch.length;
+      const [metadata] = await file.getMetadata();
+      const fileSize = Number(metadata.size);
+      
+      const signedUrl = await getExportDownloadUrl(file);
       
-      // Update batch document with progress
-      await batchRef.update({
-        generatedCount: admin.firestore.FieldValue.increment(codeBatch.length)
+      // Signed manifest proving what was exported, by whom and when
+      const manifest = buildManifest({
+        exportId: exportRef.id,
+        batchId,
+        batchName: batchData.name,
+        fileName,
+        contentFileName: plainFileName,
+        format,
+        encryptionMode: encryption.mode,
+        codeCount: progress.exportedCount,
+        sha256: contentTap.digest(),
+        fileSha256: encrypted ? fileTap.digest() : null,
+        exportedBy: userId,
+        exportedByEmail: context.auth.token?.email,
+        exportedAt
       });
       
-      logger.info(`Committed batch of ${codeBatch.length} codes, total: ${generatedCount}/${quantity}`);
+      await exportRef.update({
+        manifest,
+        signature: signManifest(manifest),
+        status: 'completed',
+        exportedCount: progress.exportedCount,
+        codeCount: progress.exportedCount,
+        fileSize,
+        finishedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      
+      // Return the download URL
+      return {
+        downloadUrl: signedUrl,
+        fileName,
+        codeCount: progress.exportedCount,
+        exportId: exportRef.id,
+        ...(password ? { password } : {})
+      };
+    } catch (error) {
+      // Abort the upload and drop any partial file
+      contentTap.stream.destroy();
+      fileTap.stream.destroy();
+      output.destroy();
+      await file.delete({ ignoreNotFound: true }).catch(() => {});
+      await exportRef.update({
+        status: 'failed',
+        error: error.message || 'Unknown error',
+        finishedAt: admin.firestore.FieldValue.serverTimestamp()
+      }).catch(updateError => logger.error('Error recording failed export:', updateError));
+      throw error;
     }
-    
-    // Mark batch as completed
-    await batchRef.update({
-      status: 'completed',
-      completedAt: admin.firestore.FieldValue.serverTimestamp(),
-      generatedCount
-    });
-    
-    logger.info(`Batch ${batchId} completed successfully`);
-    
-    return { success: true };
   } catch (error) {
-    logger.error('Error generating code batch:', error);
-    
-    // Mark batch as failed
-    try {
-      const batchRef = db.collection('stickerBatches').doc(batchId);
-      await batchRef.update({
-        status: 'failed'
-      });
-    } catch (updateError) {
-      logger.error('Error updating batch status to failed:', updateError);
+    logger.error('Error exporting codes:', error);
+    if (error instanceof HttpsError) {
+      throw error;
     }
-    
     throw new HttpsError(
       'internal',
-      'Error generating codes',
-      error.message
+      'Error exporting codes: ' + error.message,
+      error
     );
   }
 };
 
 /**
- * Handler for code export
+ * Handler for batch deletion. Moves the batch to the trash (status
+ * 'archived'); purgeArchivedBatches deletes it and its codes later.
  */
-exports.exportCodesHandler = async (data, context) => {
+exports.deleteBatchHandler = async (data, context) => {
   // Validate authentication
   if (!context.auth) {
     throw new HttpsError(
       'unauthenticated',
-      'Authentication required to export codes'
+      'Authentication required to delete batch'
     );
   }
   
   // Validate input
-  const { batchId, format = 'csv', includeStatus = true } = data;
-  const userId = context.auth.uid;
-  
+  const { batchId, force = false } = data;
   if (!batchId) {
     throw new HttpsError(
       'invalid-argument',
       'Batch ID is required'
     );
   }
+  await requireAdminRole(context.auth, ADMIN_ROLES, 'delete batches');
   
   const db = admin.firestore();
-  const bucket = admin.storage().bucket();
   
   try {
-    // Get batch details
+    // Check if the batch exists
     const batchRef = db.collection('stickerBatches').doc(batchId);
     const batchDoc = await batchRef.get();
     
@@ -225,144 +1002,75 @@ exports.exportCodesHandler = async (data, context) => {
       );
     }
     
-    const batchData = batchDoc.data();
-    
-    // Get all codes in the batch
-    const codesSnapshot = await db.collection('stickerCodes')
-      .where('batchId', '==', batchId)
-      .get();
-    
-    const codes = [];
-    codesSnapshot.forEach(doc => {
-      if (includeStatus) {
-        codes.push({
-          code: doc.id,
-          status: doc.data().status,
-          createdAt: doc.data().createdAt?.toDate()?.toISOString() || null
-        });
-      } else {
-        codes.push({
-          code: doc.id
-        });
-      }
-    });
-    
-    logger.info(`Exporting ${codes.length} codes from batch ${batchId}`);
-    
-    if (codes.length === 0) {
+    // Codes handed out to end users must not disappear without an explicit override
+    const assignedCount = await countAssignedCodes(batchId, batchDoc.data());
+    if (assignedCount > 0 && !force) {
       throw new HttpsError(
-        'not-found',
-        'No codes found in this batch'
+        'failed-precondition',
+        `${assignedCount} codes in this batch are assigned to users`,
+        { assignedCount }
       );
     }
     
-    // Format the output
-    let content = '';
-    let fileName = '';
-    let mimeType = '';
+    const purgeAfter = getPurgeAfter();
     
-    switch (format) {
-      case 'csv':
-        // Generate CSV content
-        if (includeStatus) {
-          content = 'Code,Status,CreatedAt\n';
-          codes.forEach(item => {
-            content += `${item.code},${item.status},${item.createdAt}\n`;
-          });
-        } else {
-          content = 'Code\n';
-          codes.forEach(item => {
-            content += `${item.code}\n`;
-          });
-        }
-        fileName = `codes_${batchId}_${Date.now()}.csv`;
-        mimeType = 'text/csv';
-        break;
-        
-      case 'json':
-        content = JSON.stringify({
-          batchId,
-          batchName: batchData.name,
-          exportedAt: new Date().toISOString(),
-          codes
-        }, null, 2);
-        fileName = `codes_${batchId}_${Date.now()}.json`;
-        mimeType = 'application/json';
-        break;
-        
-      default:
+    await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(batchRef);
+      const status = current.data().status;
+      
+      if (status === 'archived' || status === 'deleting') {
         throw new HttpsError(
-          'invalid-argument',
-          'Invalid format specified'
+          'failed-precondition',
+          status === 'archived' ? 'Batch is already in the trash' : 'Batch is already being deleted'
         );
-    }
-    
-    // Create a temporary file
-    const tempFilePath = path.join(os.tmpdir(), fileName);
-    fs.writeFileSync(tempFilePath, content);
-    
-    // Upload to Firebase Storage
-    const storagePath = `exports/${userId}/${fileName}`;
-    
-    await bucket.upload(tempFilePath, {
-      destination: storagePath,
-      metadata: {
-        contentType: mimeType,
-        metadata: {
-          batchId: batchId,
-          exportedBy: userId,
-          exportTime: new Date().toISOString()
-        }
       }
+      if (status === 'generating') {
+        throw new HttpsError(
+          'failed-precondition',
+          'Batch is still generating; wait until it completes or fails'
+        );
+      }
+      
+      transaction.update(batchRef, {
+        status: 'archived',
+        archivedFromStatus: status,
+        archivedAt: admin.firestore.FieldValue.serverTimestamp(),
+        archivedBy: context.auth.uid,
+        purgeAfter,
+        assignedOverride: assignedCount > 0
+      });
+      recordBatchStatusChange(transaction, status, 'archived');
     });
     
-    // Delete temporary file
-    fs.unlinkSync(tempFilePath);
-    
-    // Generate a signed URL for download (valid for 1 hour)
-    const [signedUrl] = await bucket.file(storagePath).getSignedUrl({
-      action: 'read',
-      expires: Date.now() + 60 * 60 * 1000 // 1 hour
-    });
-    
-    // Track export in Firestore
-    const exportRef = db.collection('codeExports').doc();
-    await exportRef.set({
-      batchId,
-      userId,
-      fileName,
-      format,
-      fileSize: content.length,
-      storagePath,
-      timestamp: admin.firestore.FieldValue.serverTimestamp(),
-      codeCount: codes.length
-    });
+    logger.info(`Batch ${batchId} moved to the trash`);
     
-    // Return the download URL
     return {
-      downloadUrl: signedUrl,
-      fileName,
-      codeCount: codes.length
+      success: true,
+      message: 'Batch moved to the trash',
+      purgeAfter: purgeAfter.toDate().toISOString()
     };
   } catch (error) {
-    logger.error('Error exporting codes:', error);
+    logger.error('Error deleting batch:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError(
       'internal',
-      'Error exporting codes: ' + error.message,
-      error
+      'Error deleting batch',
+      error.message
     );
   }
 };
 
 /**
- * Handler for batch deletion
+ * Handler for restoring a batch from the trash
  */
-exports.deleteBatchHandler = async (data, context) => {
+exports.restoreBatchHandler = async (data, context) => {
   // Validate authentication
   if (!context.auth) {
     throw new HttpsError(
       'unauthenticated',
-      'Authentication required to delete batch'
+      'Authentication required to restore batch'
     );
   }
   
@@ -374,64 +1082,177 @@ exports.deleteBatchHandler = async (data, context) => {
       'Batch ID is required'
     );
   }
+  await requireAdminRole(context.auth, ADMIN_ROLES, 'restore batches');
   
   const db = admin.firestore();
+  const batchRef = db.collection('stickerBatches').doc(batchId);
   
   try {
-    // Check if the batch exists
-    const batchRef = db.collection('stickerBatches').doc(batchId);
-    const batchDoc = await batchRef.get();
-    
-    if (!batchDoc.exists) {
-      throw new HttpsError(
-        'not-found',
-        'Batch not found'
-      );
-    }
-    
-    // Delete all codes in the batch
-    const codesSnapshot = await db.collection('stickerCodes')
-      .where('batchId', '==', batchId)
-      .get();
-    
-    if (!codesSnapshot.empty) {
-      logger.info(`Deleting ${codesSnapshot.size} codes from batch ${batchId}`);
-      
-      // Delete in batches to avoid Firestore write limits
-      const chunks = [];
-      const chunkSize = 500; // Firestore batch limit
+    const status = await db.runTransaction(async (transaction) => {
+      const batchDoc = await transaction.get(batchRef);
       
-      for (let i = 0; i < codesSnapshot.size; i += chunkSize) {
-        chunks.push(codesSnapshot.docs.slice(i, i + chunkSize));
+      if (!batchDoc.exists) {
+        throw new HttpsError(
+          'not-found',
+          'Batch not found'
+        );
       }
       
-      for (const chunk of chunks) {
-        const batch = db.batch();
-        
-        chunk.forEach(doc => {
-          batch.delete(doc.ref);
-        });
-        
-        await batch.commit();
-        logger.info(`Deleted batch of ${chunk.length} codes`);
+      const batchData = batchDoc.data();
+      if (batchData.status !== 'archived') {
+        throw new HttpsError(
+          'failed-precondition',
+          'Batch is not in the trash'
+        );
       }
+      
+      const restoredStatus = batchData.archivedFromStatus || 'completed';
+      const deleteField = admin.firestore.FieldValue.delete();
+      transaction.update(batchRef, {
+        status: restoredStatus,
+        archivedFromStatus: deleteField,
+        archivedAt: deleteField,
+        archivedBy: deleteField,
+        purgeAfter: deleteField,
+        assignedOverride: deleteField
+      });
+      recordBatchStatusChange(transaction, 'archived', restoredStatus);
+      
+      return restoredStatus;
+    });
+    
+    logger.info(`Batch ${batchId} restored as ${status}`);
+    
+    return {
+      success: true,
+      status
+    };
+  } catch (error) {
+    logger.error('Error restoring batch:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error restoring batch: ' + error.message,
+      error
+    );
+  }
+};
+
+/**
+ * Handler for a fresh download URL of an existing export
+ */
+exports.refreshExportUrlHandler = async (data, context) => {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to download exports'
+    );
+  }
+  
+  const { exportId } = data;
+  
+  if (!exportId) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Export ID is required'
+    );
+  }
+  await requireAdminRole(context.auth, ADMIN_APP_ROLES, 'download exports');
+  
+  const db = admin.firestore();
+  const bucket = admin.storage().bucket();
+  
+  try {
+    const exportDoc = await db.collection('codeExports').doc(exportId).get();
+    
+    if (!exportDoc.exists) {
+      throw new HttpsError('not-found', 'Export not found');
+    }
+    
+    const exportData = exportDoc.data();
+    
+    // Records from before export status tracking have no status but a finished file
+    if (exportData.status && exportData.status !== 'completed') {
+      throw new HttpsError(
+        'failed-precondition',
+        `Export is ${exportData.status} and has no file to download`
+      );
     }
     
-    // Finally, delete the batch document
-    await batchRef.delete();
+    const file = bucket.file(exportData.storagePath);
+    const [exists] = await file.exists();
     
-    logger.info(`Batch ${batchId} deleted successfully`);
+    if (!exists) {
+      throw new HttpsError('not-found', 'Export file no longer exists');
+    }
     
     return {
-      success: true,
-      message: 'Batch and all associated codes deleted successfully'
+      downloadUrl: await getExportDownloadUrl(file),
+      fileName: exportData.fileName
     };
   } catch (error) {
-    logger.error('Error deleting batch:', error);
+    logger.error('Error refreshing export URL:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError(
       'internal',
-      'Error deleting batch',
-      error.message
+      'Error refreshing export URL: ' + error.message,
+      error
     );
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Handler for confirming the client received the password of a ZIP export.
+ * Exports whose password was never received cannot be opened; the
+ * retention cleanup fails them and deletes their files.
+ */
+exports.confirmExportPasswordHandler = async (data, context) => {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to confirm exports'
+    );
+  }
+  
+  const { exportId } = data;
+  
+  if (!exportId) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Export ID is required'
+    );
+  }
+  
+  const exportRef = admin.firestore().collection('codeExports').doc(exportId);
+  
+  try {
+    const exportDoc = await exportRef.get();
+    
+    // Only the user who ran the export was given its password
+    if (!exportDoc.exists || exportDoc.data().userId !== context.auth.uid) {
+      throw new HttpsError('not-found', 'Export not found');
+    }
+    if (exportDoc.data().passwordReceived !== false) {
+      throw new HttpsError('failed-precondition', 'Export has no password to confirm');
+    }
+    
+    await exportRef.update({ passwordReceived: true });
+    return { success: true };
+  } catch (error) {
+    logger.error('Error confirming export password:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error confirming export password: ' + error.message,
+      error
+    );
+  }
+};
@@ -0,0 +1,48 @@
+// functions/codeHistory.js
+
+const admin = require('firebase-admin');
+
+/**
+ * Per-code audit history: every change to a code appends an event to
+ * stickerCodes/{code}/history, written by the transaction that makes the
+ * change. Events are built by buildCodeHistoryEvent in
+ * shared/codeLifecycle.mjs so the admin app records the same fields.
+ */
+
+// Subcollection of a code document holding its history events
+const CODE_HISTORY_COLLECTION = 'history';
+
+/**
+ * Append a history event to a code
+ * @param {FirebaseFirestore.Transaction|FirebaseFirestore.WriteBatch} writer Writer
+ * @param {FirebaseFirestore.DocumentReference} codeRef Code document
+ * @param {object} event Event fields from buildCodeHistoryEvent
+ */
+function recordCodeHistory(writer, codeRef, event) {
+  writer.set(codeRef.collection(CODE_HISTORY_COLLECTION).doc(), {
+    ...event,
+    changedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+}
+
+/**
+ * Delete the history of codes about to be deleted; deleting a document
+ * leaves its subcollections behind
+ * @param {FirebaseFirestore.DocumentReference[]} codeRefs Code documents
+ * @returns {Promise<void>}
+ */
+async function deleteCodeHistory(codeRefs) {
+  const db = admin.firestore();
+  const writer = db.bulkWriter();
+
+  await Promise.all(codeRefs.map(codeRef =>
+    db.recursiveDelete(codeRef.collection(CODE_HISTORY_COLLECTION), writer)
+  ));
+  await writer.close();
+}
+
+module.exports = {
+  CODE_HISTORY_COLLECTION,
+  recordCodeHistory,
+  deleteCodeHistory,
+};
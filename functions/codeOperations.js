@@ -0,0 +1,827 @@
+// functions/codeOperations.js
+
+const { HttpsError } = require('firebase-functions/v2/https');
+const logger = require('firebase-functions/logger');
+const admin = require('firebase-admin');
+const { codeCountUpdates, recordCodeCountChanges } = require('./counters');
+const { recordCodeHistory } = require('./codeHistory');
+const { CODE_EDITOR_ROLES, requireAdminRole } = require('./adminRoles');
+const { isValidEmail, queueNotificationEmail } = require('./notifications');
+
+// Shared code format validation and lifecycle (ES modules)
+const codeGenerationModule = import('./shared/codeGeneration.mjs');
+const codeLifecycleModule = import('./shared/codeLifecycle.mjs');
+
+// Codes updated per transaction (one chunk)
+const BULK_CHUNK_SIZE = 200;
+
+// Most codes that can be picked one by one; larger selections use the filter
+const MAX_SELECTED_CODES = 5000;
+
+// Time a bulk operation may spend before it stops and reports the rest as
+// not processed; the callable times out well after this
+const BULK_TIME_BUDGET_MS = 240 * 1000;
+
+// Failed codes listed in the result (all are counted)
+const MAX_REPORTED_FAILURES = 100;
+
+// Most report entries returned; larger runs are summarized by the counts
+const MAX_REPORT_ENTRIES = 10000;
+
+// Batches whose codes cannot be changed
+const LOCKED_BATCH_STATUSES = ['generating', 'archived', 'deleting'];
+
+/**
+ * Code fields removing the record of why and when a code was disabled
+ * @returns {object} Field deletes
+ */
+function clearDisabledFields() {
+  return {
+    disabledReason: admin.firestore.FieldValue.delete(),
+    disabledAt: admin.firestore.FieldValue.delete(),
+    disabledBy: admin.firestore.FieldValue.delete(),
+    disabledFromStatus: admin.firestore.FieldValue.delete()
+  };
+}
+
+/**
+ * Code update for a status change, checked against the transition table
+ * @param {object} lifecycle The shared codeLifecycle module
+ * @param {object} codeData Current code data
+ * @param {string} toStatus Requested status
+ * @param {{assignedTo?: string, reason?: string, uid: string}} details Assignee, reason and acting user
+ * @returns {{update?: object, error?: string}} The update, or why the change is not allowed
+ */
+function buildStatusUpdate(lifecycle, codeData, toStatus, details) {
+  const validation = lifecycle.validateCodeTransition(codeData, toStatus, details);
+  if (!validation.valid) {
+    return { error: validation.message };
+  }
+
+  const { FieldValue } = admin.firestore;
+  const reason = details.reason?.trim();
+  const update = {
+    status: toStatus,
+    statusReason: reason || FieldValue.delete(),
+    statusChangedAt: FieldValue.serverTimestamp(),
+    statusChangedBy: details.uid
+  };
+
+  if (details.assignedTo && lifecycle.ASSIGNED_CODE_STATUSES.includes(toStatus)) {
+    update.assignedTo = details.assignedTo;
+    update.assignedAt = FieldValue.serverTimestamp();
+  } else if (lifecycle.UNASSIGNED_CODE_STATUSES.includes(toStatus)) {
+    update.assignedTo = FieldValue.delete();
+    update.assignedAt = FieldValue.delete();
+  }
+
+  if (toStatus === 'disabled') {
+    update.disabledFromStatus = codeData.status;
+  } else if (codeData.status === 'disabled') {
+    Object.assign(update, clearDisabledFields());
+  }
+
+  return { update };
+}
+
+/**
+ * Bulk code operations: the status each moves a code to, or null when the
+ * code is already in the resulting state
+ */
+const BULK_OPERATIONS = {
+  disable: (codeData) => codeData.status === 'disabled' ? null : 'disabled',
+
+  // Back to the status the code had before it was disabled
+  enable: (codeData, lifecycle) => codeData.status === 'disabled'
+    ? lifecycle.getReenabledStatus(codeData)
+    : null,
+
+  // Available again, dropping any assignment (needs a reason when assigned)
+  reset: (codeData) => codeData.status === 'available' && !codeData.assignedTo
+    ? null
+    : 'available',
+};
+
+/**
+ * Apply an operation to one chunk of codes in a single transaction, with
+ * the batch and global counters and a history event per changed code.
+ * Codes the transition table does not let make the change are reported as
+ * failed.
+ * @param {FirebaseFirestore.DocumentReference} batchRef Batch of the codes
+ * @param {string[]} codes Codes in the chunk
+ * @param {function(object, object): (string|null)} operation Status to move each code to
+ * @param {{reason?: string, uid: string}} details Reason and acting user
+ * @returns {Promise<{updated: number, unchanged: number, failed: Array<{code: string, reason: string}>}>} Chunk outcome
+ */
+async function applyToChunk(batchRef, codes, operation, details) {
+  const lifecycle = await codeLifecycleModule;
+  const db = admin.firestore();
+  const codeRefs = codes.map(code => db.collection('stickerCodes').doc(code));
+
+  return db.runTransaction(async (transaction) => {
+    const batchDoc = await transaction.get(batchRef);
+    if (!batchDoc.exists) {
+      throw new HttpsError('not-found', 'Batch not found');
+    }
+    if (LOCKED_BATCH_STATUSES.includes(batchDoc.data().status)) {
+      throw new HttpsError(
+        'failed-precondition',
+        `Codes cannot be changed while the batch is ${batchDoc.data().status}`
+      );
+    }
+
+    const codeDocs = await transaction.getAll(...codeRefs);
+    const outcome = { updated: 0, unchanged: 0, failed: [] };
+    const changes = {};
+
+    codeDocs.forEach(codeDoc => {
+      if (!codeDoc.exists || codeDoc.data().batchId !== batchRef.id) {
+        outcome.failed.push({ code: codeDoc.id, reason: 'Not a code of this batch' });
+        return;
+      }
+
+      const codeData = codeDoc.data();
+      const toStatus = operation(codeData, lifecycle);
+      if (!toStatus) {
+        outcome.unchanged++;
+        return;
+      }
+
+      const { update, error } = buildStatusUpdate(lifecycle, codeData, toStatus, details);
+      if (error) {
+        outcome.failed.push({ code: codeDoc.id, reason: error });
+        return;
+      }
+
+      if (update.status !== codeData.status) {
+        changes[codeData.status] = (changes[codeData.status] || 0) - 1;
+        changes[update.status] = (changes[update.status] || 0) + 1;
+      }
+      transaction.update(codeDoc.ref, update);
+      recordCodeHistory(transaction, codeDoc.ref, lifecycle.buildCodeHistoryEvent(codeData, toStatus, details));
+      outcome.updated++;
+    });
+
+    // Batches created before stored counters are counted on read instead
+    if (batchDoc.data().codeCounts) {
+      const counterFields = codeCountUpdates(changes);
+      if (Object.keys(counterFields).length > 0) {
+        transaction.update(batchRef, counterFields);
+      }
+    }
+    recordCodeCountChanges(transaction, changes);
+
+    return outcome;
+  });
+}
+
+/**
+ * Chunks of the codes to process: the selected codes, or every code of the
+ * batch matching the status filter, paged in document ID order
+ * @param {string} batchId Batch ID
+ * @param {string[]|null} codes Selected codes, or null for the filter
+ * @param {string|null} status Status filter for "all matching"
+ * @returns {AsyncGenerator<string[]>} Code chunks
+ */
+async function* codeChunks(batchId, codes, status) {
+  if (codes) {
+    for (let i = 0; i < codes.length; i += BULK_CHUNK_SIZE) {
+      yield codes.slice(i, i + BULK_CHUNK_SIZE);
+    }
+    return;
+  }
+
+  let codesQuery = admin.firestore().collection('stickerCodes')
+    .where('batchId', '==', batchId);
+  if (status) {
+    codesQuery = codesQuery.where('status', '==', status);
+  }
+
+  let lastDoc = null;
+  for (;;) {
+    let pageQuery = codesQuery
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(BULK_CHUNK_SIZE);
+    if (lastDoc) {
+      pageQuery = pageQuery.startAfter(lastDoc);
+    }
+
+    // Only the IDs; each chunk is re-read in its transaction
+    const snapshot = await pageQuery.select().get();
+    if (snapshot.empty) {
+      return;
+    }
+
+    yield snapshot.docs.map(doc => doc.id);
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Handler for disabling, re-enabling or resetting many codes of a batch.
+ * Codes are either picked (codes) or all codes matching a status filter
+ * (allMatching + status). Runs in chunked transactions; a chunk that fails
+ * reports its codes as failed and the rest carries on.
+ */
+async function bulkUpdateCodesHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to update codes'
+    );
+  }
+
+  // Validate input
+  const { batchId, operation, codes, allMatching, status, reason } = data;
+  if (!batchId) {
+    throw new HttpsError('invalid-argument', 'Batch ID is required');
+  }
+  if (!Object.prototype.hasOwnProperty.call(BULK_OPERATIONS, operation)) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Operation must be one of: ${Object.keys(BULK_OPERATIONS).join(', ')}`
+    );
+  }
+  if (!allMatching) {
+    if (!Array.isArray(codes) || codes.length === 0 || codes.some(code => typeof code !== 'string' || !code)) {
+      throw new HttpsError('invalid-argument', 'Select at least one code');
+    }
+    if (codes.length > MAX_SELECTED_CODES) {
+      throw new HttpsError(
+        'invalid-argument',
+        `At most ${MAX_SELECTED_CODES} codes can be selected; select all matching codes instead`
+      );
+    }
+  }
+  const { CODE_STATUSES } = await codeLifecycleModule;
+  if (status && !CODE_STATUSES.includes(status)) {
+    throw new HttpsError('invalid-argument', 'Invalid status filter');
+  }
+  await requireAdminRole(context.auth, CODE_EDITOR_ROLES, 'update codes');
+
+  const db = admin.firestore();
+  const batchRef = db.collection('stickerBatches').doc(batchId);
+  const deadline = Date.now() + BULK_TIME_BUDGET_MS;
+  const result = { updated: 0, unchanged: 0, failedCount: 0, failed: [], completed: true };
+
+  const addFailures = (failures) => {
+    result.failedCount += failures.length;
+    result.failed.push(...failures.slice(0, MAX_REPORTED_FAILURES - result.failed.length));
+  };
+
+  try {
+    const batchDoc = await batchRef.get();
+    if (!batchDoc.exists) {
+      throw new HttpsError('not-found', 'Batch not found');
+    }
+    if (LOCKED_BATCH_STATUSES.includes(batchDoc.data().status)) {
+      throw new HttpsError(
+        'failed-precondition',
+        `Codes cannot be changed while the batch is ${batchDoc.data().status}`
+      );
+    }
+
+    const selected = allMatching ? null : [...new Set(codes)];
+
+    for await (const chunk of codeChunks(batchId, selected, status || null)) {
+      if (Date.now() >= deadline) {
+        result.completed = false;
+        break;
+      }
+
+      try {
+        const outcome = await applyToChunk(batchRef, chunk, BULK_OPERATIONS[operation], {
+          reason: typeof reason === 'string' ? reason : '',
+          uid: context.auth.uid
+        });
+        result.updated += outcome.updated;
+        result.unchanged += outcome.unchanged;
+        addFailures(outcome.failed);
+      } catch (error) {
+        // The batch went away or was locked: later chunks would fail too
+        if (error instanceof HttpsError) {
+          throw error;
+        }
+        logger.error(`Bulk ${operation} failed for a chunk of batch ${batchId}:`, error);
+        addFailures(chunk.map(code => ({ code, reason: error.message })));
+      }
+    }
+
+    logger.info(
+      `Bulk ${operation} on batch ${batchId}: ${result.updated} updated, ` +
+      `${result.unchanged} unchanged, ${result.failedCount} failed`
+    );
+    return result;
+  } catch (error) {
+    logger.error('Error updating codes:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error updating codes: ' + error.message,
+      error
+    );
+  }
+}
+
+/**
+ * Disable or re-enable one chunk of codes from any batches in a single
+ * transaction, with the batch and global counters and a history event per
+ * changed code
+ * @param {string[]} codes Codes in the chunk (valid format, no duplicates)
+ * @param {'disable'|'enable'} action What to do
+ * @param {object} disabledFields Fields recorded on disabled codes
+ * @param {{reason: string, uid: string}} details Reason and acting user
+ * @returns {Promise<Array<{code: string, result: string, message: string}>>} Report entries
+ */
+async function setChunkDisabled(codes, action, disabledFields, details) {
+  const lifecycle = await codeLifecycleModule;
+  const db = admin.firestore();
+  const codeRefs = codes.map(code => db.collection('stickerCodes').doc(code));
+
+  return db.runTransaction(async (transaction) => {
+    const codeDocs = await transaction.getAll(...codeRefs);
+
+    // Read every batch involved before writing
+    const batchIds = [...new Set(codeDocs.filter(doc => doc.exists).map(doc => doc.data().batchId))];
+    const batchDocs = batchIds.length > 0
+      ? await transaction.getAll(...batchIds.map(id => db.collection('stickerBatches').doc(id)))
+      : [];
+    const batchesById = new Map(batchDocs.map(doc => [doc.id, doc]));
+
+    const report = [];
+    const changesByBatch = new Map();
+
+    codeDocs.forEach(codeDoc => {
+      if (!codeDoc.exists) {
+        report.push({ code: codeDoc.id, result: 'not-found', message: 'Code not found' });
+        return;
+      }
+
+      const codeData = codeDoc.data();
+      const batchDoc = batchesById.get(codeData.batchId);
+      if (batchDoc?.exists && LOCKED_BATCH_STATUSES.includes(batchDoc.data().status)) {
+        report.push({
+          code: codeDoc.id,
+          result: 'locked',
+          message: `Batch is ${batchDoc.data().status}`
+        });
+        return;
+      }
+
+      const toStatus = BULK_OPERATIONS[action](codeData, lifecycle);
+      if (!toStatus) {
+        report.push({
+          code: codeDoc.id,
+          result: 'unchanged',
+          message: action === 'disable' ? 'Already disabled' : 'Not disabled'
+        });
+        return;
+      }
+
+      const { update, error } = buildStatusUpdate(lifecycle, codeData, toStatus, details);
+      if (error) {
+        report.push({ code: codeDoc.id, result: 'rejected', message: error });
+        return;
+      }
+
+      transaction.update(codeDoc.ref, action === 'disable' ? { ...update, ...disabledFields } : update);
+      recordCodeHistory(transaction, codeDoc.ref, lifecycle.buildCodeHistoryEvent(codeData, toStatus, details));
+      report.push({
+        code: codeDoc.id,
+        result: action === 'disable' ? 'disabled' : 'enabled',
+        message: action === 'disable' ? `Was ${codeData.status}` : `Now ${update.status}`
+      });
+
+      const changes = changesByBatch.get(codeData.batchId) || {};
+      changes[codeData.status] = (changes[codeData.status] || 0) - 1;
+      changes[update.status] = (changes[update.status] || 0) + 1;
+      changesByBatch.set(codeData.batchId, changes);
+    });
+
+    const totalChanges = {};
+    changesByBatch.forEach((changes, batchId) => {
+      // Batches created before stored counters are counted on read instead
+      const batchDoc = batchesById.get(batchId);
+      if (batchDoc?.exists && batchDoc.data().codeCounts) {
+        transaction.update(batchDoc.ref, codeCountUpdates(changes));
+      }
+      Object.entries(changes).forEach(([status, delta]) => {
+        totalChanges[status] = (totalChanges[status] || 0) + delta;
+      });
+    });
+    recordCodeCountChanges(transaction, totalChanges);
+
+    return report;
+  });
+}
+
+/**
+ * Handler for disabling (with a reason) or re-enabling codes, e.g. every
+ * code of a damaged or stolen printer roll. Codes are either listed (codes,
+ * from any batches) or all codes of a batch matching a status filter
+ * (batchId + status). Listed codes are checked with validateCodeFormat
+ * first. Returns a report line per code.
+ */
+async function setCodesDisabledHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to update codes'
+    );
+  }
+
+  // Validate input
+  const { action = 'disable', codes, batchId, status } = data;
+  const reason = typeof data.reason === 'string' ? data.reason.trim() : '';
+  if (action !== 'disable' && action !== 'enable') {
+    throw new HttpsError('invalid-argument', 'Action must be disable or enable');
+  }
+  if (action === 'disable' && !reason) {
+    throw new HttpsError('invalid-argument', 'A reason is required to disable codes');
+  }
+  if (!batchId) {
+    if (!Array.isArray(codes) || codes.length === 0 || codes.some(code => typeof code !== 'string')) {
+      throw new HttpsError('invalid-argument', 'Provide a list of codes or a batch');
+    }
+    if (codes.length > MAX_SELECTED_CODES) {
+      throw new HttpsError(
+        'invalid-argument',
+        `At most ${MAX_SELECTED_CODES} codes can be listed at once`
+      );
+    }
+  }
+  const { CODE_STATUSES } = await codeLifecycleModule;
+  if (status && !CODE_STATUSES.includes(status)) {
+    throw new HttpsError('invalid-argument', 'Invalid status filter');
+  }
+  await requireAdminRole(context.auth, CODE_EDITOR_ROLES, `${action} codes`);
+
+  const { validateCodeFormat } = await codeGenerationModule;
+  const deadline = Date.now() + BULK_TIME_BUDGET_MS;
+  const disabledFields = {
+    disabledReason: reason,
+    disabledAt: admin.firestore.FieldValue.serverTimestamp(),
+    disabledBy: context.auth.uid
+  };
+
+  const counts = {};
+  const report = [];
+  const addToReport = (entries) => {
+    entries.forEach(entry => {
+      counts[entry.result] = (counts[entry.result] || 0) + 1;
+    });
+    report.push(...entries.slice(0, MAX_REPORT_ENTRIES - report.length));
+  };
+
+  try {
+    let toProcess = null;
+    if (batchId) {
+      const batchDoc = await admin.firestore().collection('stickerBatches').doc(batchId).get();
+      if (!batchDoc.exists) {
+        throw new HttpsError('not-found', 'Batch not found');
+      }
+    } else {
+      // Normalize and validate the listed codes; duplicates are reported once
+      toProcess = [];
+      const seen = new Set();
+      codes.forEach(rawCode => {
+        const code = rawCode.trim().toUpperCase();
+        if (seen.has(code)) {
+          addToReport([{ code, result: 'duplicate', message: 'Listed more than once' }]);
+          return;
+        }
+        seen.add(code);
+
+        const validation = validateCodeFormat(code);
+        if (!validation.valid) {
+          addToReport([{ code: code || rawCode, result: 'invalid', message: validation.message }]);
+          return;
+        }
+        toProcess.push(code);
+      });
+    }
+
+    let completed = true;
+    for await (const chunk of codeChunks(batchId, toProcess, status || null)) {
+      if (Date.now() >= deadline) {
+        completed = false;
+        break;
+      }
+
+      try {
+        addToReport(await setChunkDisabled(chunk, action, disabledFields, {
+          reason,
+          uid: context.auth.uid
+        }));
+      } catch (error) {
+        logger.error(`Failed to ${action} a chunk of codes:`, error);
+        addToReport(chunk.map(code => ({ code, result: 'failed', message: error.message })));
+      }
+    }
+
+    logger.info(`${action} codes by ${context.auth.uid}:`, counts);
+    return {
+      counts,
+      report,
+      reportTruncated: report.length < Object.values(counts).reduce((sum, count) => sum + count, 0),
+      completed
+    };
+  } catch (error) {
+    logger.error('Error updating codes:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error updating codes: ' + error.message,
+      error
+    );
+  }
+}
+
+/**
+ * Read a code and its batch in a transaction, refusing codes of batches
+ * that are generating or in the trash
+ * @param {FirebaseFirestore.Transaction} transaction Transaction
+ * @param {string} code Code to read
+ * @returns {Promise<{codeRef: object, codeData: object, batchRef: object, batchDoc: object}>} Code and batch
+ */
+async function getChangeableCode(transaction, code) {
+  const db = admin.firestore();
+  const codeRef = db.collection('stickerCodes').doc(code);
+  const codeDoc = await transaction.get(codeRef);
+  if (!codeDoc.exists) {
+    throw new HttpsError('not-found', 'Code not found');
+  }
+
+  const codeData = codeDoc.data();
+  const batchRef = db.collection('stickerBatches').doc(codeData.batchId);
+  const batchDoc = await transaction.get(batchRef);
+  if (batchDoc.exists && LOCKED_BATCH_STATUSES.includes(batchDoc.data().status)) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Codes cannot be changed while the batch is ${batchDoc.data().status}`
+    );
+  }
+
+  return { codeRef, codeData, batchRef, batchDoc };
+}
+
+/**
+ * Change one code's status in a transaction, with the batch and global
+ * counters and a history event
+ * @param {string} code Code to change
+ * @param {string} toStatus New status
+ * @param {{assignedTo?: string, reason?: string, uid: string}} details Assignee, reason and acting user
+ * @param {function(object): void} [check] Throws an HttpsError when the code may not be changed this way
+ * @param {function(FirebaseFirestore.Transaction, object): void} [onChange] Extra writes made with the change
+ * @returns {Promise<{success: boolean, status: string}>} Result
+ */
+async function changeCodeStatus(code, toStatus, details, check, onChange) {
+  const lifecycle = await codeLifecycleModule;
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const { codeRef, codeData, batchRef, batchDoc } = await getChangeableCode(transaction, code);
+    if (check) {
+      check(codeData);
+    }
+
+    const { update, error } = buildStatusUpdate(lifecycle, codeData, toStatus, details);
+    if (error) {
+      throw new HttpsError('failed-precondition', error);
+    }
+
+    transaction.update(codeRef, update);
+    recordCodeHistory(transaction, codeRef, lifecycle.buildCodeHistoryEvent(codeData, toStatus, details));
+
+    if (toStatus !== codeData.status) {
+      const changes = { [codeData.status]: -1, [toStatus]: 1 };
+      // Batches created before stored counters are counted on read instead
+      if (batchDoc.exists && batchDoc.data().codeCounts) {
+        transaction.update(batchRef, codeCountUpdates(changes));
+      }
+      recordCodeCountChanges(transaction, changes);
+    }
+
+    if (onChange) {
+      onChange(transaction, codeData);
+    }
+
+    return { success: true, status: toStatus };
+  });
+}
+
+/**
+ * Move one code to another user in a transaction, keeping its status, with
+ * a history event. Only assigned and activated codes can be moved.
+ * @param {string} code Code to move
+ * @param {{assignedTo: string, reason: string, uid: string}} details New owner, reason and acting user
+ * @param {function(FirebaseFirestore.Transaction, object): void} [onChange] Extra writes made with the change
+ * @returns {Promise<{success: boolean, status: string}>} Result
+ */
+async function changeCodeOwner(code, details, onChange) {
+  const lifecycle = await codeLifecycleModule;
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const { codeRef, codeData } = await getChangeableCode(transaction, code);
+
+    const validation = lifecycle.validateCodeTransfer(codeData, details.assignedTo);
+    if (!validation.valid) {
+      throw new HttpsError('failed-precondition', validation.message);
+    }
+
+    const { FieldValue } = admin.firestore;
+    transaction.update(codeRef, {
+      assignedTo: details.assignedTo,
+      assignedAt: FieldValue.serverTimestamp(),
+      statusReason: details.reason.trim(),
+      statusChangedAt: FieldValue.serverTimestamp(),
+      statusChangedBy: details.uid
+    });
+    recordCodeHistory(transaction, codeRef, lifecycle.buildCodeHistoryEvent(codeData, codeData.status, details));
+
+    if (onChange) {
+      onChange(transaction, codeData);
+    }
+
+    return { success: true, status: codeData.status };
+  });
+}
+
+/**
+ * Validate the input shared by unassigning and transferring a code: the
+ * code, a reason and an optional email address to notify
+ * @param {object} data Callable data
+ * @param {object} context Callable context
+ * @returns {{code: string, reason: string, notifyEmail: string}} Cleaned input
+ */
+function validateOwnershipChange(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to update codes'
+    );
+  }
+
+  // Validate input
+  const { code } = data;
+  const reason = typeof data.reason === 'string' ? data.reason.trim() : '';
+  const notifyEmail = typeof data.notifyEmail === 'string' ? data.notifyEmail.trim() : '';
+  if (!code || typeof code !== 'string') {
+    throw new HttpsError('invalid-argument', 'Code is required');
+  }
+  if (!reason) {
+    throw new HttpsError('invalid-argument', 'A reason is required');
+  }
+  if (notifyEmail && !isValidEmail(notifyEmail)) {
+    throw new HttpsError('invalid-argument', 'Invalid notification email address');
+  }
+
+  return { code, reason, notifyEmail };
+}
+
+/**
+ * Rethrow an error from a single code change as an HttpsError
+ * @param {Error} error Error thrown
+ * @throws {HttpsError} Always
+ */
+function rethrowCodeError(error) {
+  logger.error('Error updating code:', error);
+  if (error instanceof HttpsError) {
+    throw error;
+  }
+  throw new HttpsError(
+    'internal',
+    'Error updating code: ' + error.message,
+    error
+  );
+}
+
+/**
+ * Handler for changing one code's status. The change must be allowed by
+ * the transition table: assigning needs a user ID, retiring needs a
+ * reason. Owners of assigned codes are only changed by unassignCode and
+ * transferCode, which also take a reason and can notify someone.
+ */
+async function updateCodeStatusHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to update codes'
+    );
+  }
+
+  // Validate input
+  const { code, status, assignedTo, reason } = data;
+  if (!code || typeof code !== 'string') {
+    throw new HttpsError('invalid-argument', 'Code is required');
+  }
+  await requireAdminRole(context.auth, CODE_EDITOR_ROLES, 'update codes');
+
+  const lifecycle = await codeLifecycleModule;
+  const details = {
+    assignedTo: typeof assignedTo === 'string' ? assignedTo.trim() : undefined,
+    reason: typeof reason === 'string' ? reason : undefined,
+    uid: context.auth.uid
+  };
+
+  try {
+    return await changeCodeStatus(code, status, details, (codeData) => {
+      if (codeData.assignedTo &&
+          lifecycle.getNextAssignee(codeData, status, details.assignedTo) !== codeData.assignedTo) {
+        throw new HttpsError(
+          'failed-precondition',
+          'Assigned codes are unassigned or transferred, not changed through their status'
+        );
+      }
+    });
+  } catch (error) {
+    rethrowCodeError(error);
+  }
+}
+
+/**
+ * Handler for releasing an assigned code, e.g. when the customer sold the
+ * item: the code goes back to available without an owner. Needs a reason;
+ * notifyEmail, when given, is told the code was released.
+ */
+async function unassignCodeHandler(data, context) {
+  const { code, reason, notifyEmail } = validateOwnershipChange(data, context);
+  await requireAdminRole(context.auth, CODE_EDITOR_ROLES, 'unassign codes');
+
+  try {
+    const result = await changeCodeStatus(
+      code,
+      'available',
+      { reason, uid: context.auth.uid },
+      (codeData) => {
+        if (!codeData.assignedTo) {
+          throw new HttpsError('failed-precondition', 'Code is not assigned');
+        }
+      },
+      (transaction, codeData) => {
+        if (notifyEmail) {
+          queueNotificationEmail(transaction, notifyEmail, {
+            subject: `Code ${code} has been released`,
+            text: `Code ${code} is no longer assigned to user ${codeData.assignedTo}.\n\nReason: ${reason}`
+          });
+        }
+      }
+    );
+
+    logger.info(`Code ${code} unassigned by ${context.auth.uid}`);
+    return result;
+  } catch (error) {
+    rethrowCodeError(error);
+  }
+}
+
+/**
+ * Handler for moving an assigned or activated code to another owner
+ * (toUserId); the code keeps its status. Disabled and lost codes are
+ * refused. Needs a reason; notifyEmail, when given, is told about the
+ * transfer.
+ */
+async function transferCodeHandler(data, context) {
+  const { code, reason, notifyEmail } = validateOwnershipChange(data, context);
+  const toUserId = typeof data.toUserId === 'string' ? data.toUserId.trim() : '';
+  if (!toUserId) {
+    throw new HttpsError('invalid-argument', 'The user to transfer the code to is required');
+  }
+  await requireAdminRole(context.auth, CODE_EDITOR_ROLES, 'transfer codes');
+
+  try {
+    const result = await changeCodeOwner(
+      code,
+      { assignedTo: toUserId, reason, uid: context.auth.uid },
+      (transaction, codeData) => {
+        if (notifyEmail) {
+          queueNotificationEmail(transaction, notifyEmail, {
+            subject: `Code ${code} has been transferred`,
+            text: `Code ${code} has been transferred from user ${codeData.assignedTo} ` +
+              `to user ${toUserId}.\n\nReason: ${reason}`
+          });
+        }
+      }
+    );
+
+    logger.info(`Code ${code} transferred to ${toUserId} by ${context.auth.uid}`);
+    return result;
+  } catch (error) {
+    rethrowCodeError(error);
+  }
+}
+
+module.exports = {
+  bulkUpdateCodesHandler,
+  setCodesDisabledHandler,
+  updateCodeStatusHandler,
+  unassignCodeHandler,
+  transferCodeHandler,
+};
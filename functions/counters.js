@@ -0,0 +1,230 @@
+// functions/counters.js
+
+const { HttpsError } = require('firebase-functions/v2/https');
+const logger = require('firebase-functions/logger');
+const admin = require('firebase-admin');
+const { ADMIN_ROLES, requireAdminRole } = require('./adminRoles');
+
+// Shared code lifecycle (ES module)
+const codeLifecycleModule = import('./shared/codeLifecycle.mjs');
+
+/**
+ * Stored status counters, kept in step with the documents they count:
+ *  - stickerBatches/{batchId}.codeCounts.<codeStatus>
+ *  - counters/global.batches.{total,<batchStatus>} and .codes.<codeStatus>
+ * Counters are written by the transaction or write batch that performs the
+ * counted change, so they are updated atomically with it.
+ *
+ * Global changes are spread over counters/global/shards/{n} so concurrent
+ * transactions do not all write one document; the totals are the
+ * counters/global baseline plus every shard. The baseline is set by
+ * recountCounters (initializedAt), which also backfills codeCounts on
+ * batches from before stored counters. Until then readers count the
+ * documents instead.
+ */
+
+// Shards global counter changes are spread over
+const COUNTER_SHARDS = 10;
+
+// Subcollection of counters/global holding the shards
+const COUNTER_SHARDS_COLLECTION = 'shards';
+
+// Batch statuses counted in counters/global.batches
+const BATCH_STATUSES = ['generating', 'completed', 'failed', 'archived', 'deleting'];
+
+// Time a recount may spend before it stops; it can be run again to continue
+const RECOUNT_TIME_BUDGET_MS = 240 * 1000;
+
+/**
+ * Reference to the global counters document (the recount baseline)
+ * @returns {FirebaseFirestore.DocumentReference} counters/global
+ */
+function globalCountersRef() {
+  return admin.firestore().collection('counters').doc('global');
+}
+
+/**
+ * Reference to a random global counters shard
+ * @returns {FirebaseFirestore.DocumentReference} counters/global/shards/{n}
+ */
+function globalCounterShardRef() {
+  const shard = Math.floor(Math.random() * COUNTER_SHARDS);
+  return globalCountersRef().collection(COUNTER_SHARDS_COLLECTION).doc(String(shard));
+}
+
+/**
+ * Record a batch status change in the global counters
+ * @param {FirebaseFirestore.Transaction|FirebaseFirestore.WriteBatch} writer Writer
+ * @param {string|null} fromStatus Previous status (null for a new batch)
+ * @param {string|null} toStatus New status (null for a deleted batch)
+ */
+function recordBatchStatusChange(writer, fromStatus, toStatus) {
+  if (fromStatus === toStatus) {
+    return;
+  }
+
+  const increment = admin.firestore.FieldValue.increment;
+  const batches = {};
+
+  if (fromStatus) {
+    batches[fromStatus] = increment(-1);
+  } else {
+    batches.total = increment(1);
+  }
+
+  if (toStatus) {
+    batches[toStatus] = increment(1);
+  } else {
+    batches.total = increment(-1);
+  }
+
+  writer.set(globalCounterShardRef(), { batches }, { merge: true });
+}
+
+/**
+ * Batch fields recording code status changes in stickerBatches.codeCounts,
+ * to merge into the update the caller makes to the batch
+ * @param {object} changes Count change per code status, e.g. { available: -1, disabled: 1 }
+ * @returns {object} Field increments keyed by dotted path
+ */
+function codeCountUpdates(changes) {
+  const fields = {};
+  Object.entries(changes).forEach(([status, delta]) => {
+    if (delta) {
+      fields[`codeCounts.${status}`] = admin.firestore.FieldValue.increment(delta);
+    }
+  });
+  return fields;
+}
+
+/**
+ * Record code status changes in the global counters
+ * @param {FirebaseFirestore.Transaction|FirebaseFirestore.WriteBatch} writer Writer
+ * @param {object} changes Count change per code status, e.g. { available: -1, disabled: 1 }
+ */
+function recordCodeCountChanges(writer, changes) {
+  const codes = {};
+  Object.entries(changes).forEach(([status, delta]) => {
+    if (delta) {
+      codes[status] = admin.firestore.FieldValue.increment(delta);
+    }
+  });
+
+  if (Object.keys(codes).length > 0) {
+    writer.set(globalCounterShardRef(), { codes }, { merge: true });
+  }
+}
+
+/**
+ * Count the documents of a collection per status
+ * @param {FirebaseFirestore.Query} baseQuery Collection or query to count
+ * @param {string[]} statuses Statuses to count
+ * @returns {Promise<object>} Count per status
+ */
+async function countByStatus(baseQuery, statuses) {
+  const counts = {};
+  for (const status of statuses) {
+    const snapshot = await baseQuery.where('status', '==', status).count().get();
+    counts[status] = snapshot.data().count;
+  }
+  return counts;
+}
+
+/**
+ * Set the global counters baseline from the documents and drop the shards
+ * @returns {Promise<{batches: object, codes: object}>} The counts written
+ */
+async function recountGlobalCounters() {
+  const db = admin.firestore();
+  const { CODE_STATUSES } = await codeLifecycleModule;
+
+  const batches = await countByStatus(db.collection('stickerBatches'), BATCH_STATUSES);
+  batches.total = BATCH_STATUSES.reduce((sum, status) => sum + batches[status], 0);
+  const codes = await countByStatus(db.collection('stickerCodes'), CODE_STATUSES);
+
+  // The shards' changes are already part of the counts
+  await db.runTransaction(async (transaction) => {
+    const shardsSnapshot = await transaction.get(
+      globalCountersRef().collection(COUNTER_SHARDS_COLLECTION)
+    );
+    transaction.set(globalCountersRef(), {
+      batches,
+      codes,
+      initializedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+    shardsSnapshot.docs.forEach(doc => transaction.delete(doc.ref));
+  });
+
+  return { batches, codes };
+}
+
+/**
+ * Handler for recounting the stored counters: backfills codeCounts on
+ * batches created before stored counters, then sets the global counters
+ * baseline. Changes made while it counts can be missed, so it is meant to
+ * run while codes are not being changed; running it again corrects the
+ * counters. Stops at its time budget with completed: false.
+ */
+async function recountCountersHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to recount counters'
+    );
+  }
+  await requireAdminRole(context.auth, ADMIN_ROLES, 'recount counters');
+
+  const db = admin.firestore();
+  const deadline = Date.now() + RECOUNT_TIME_BUDGET_MS;
+  const { CODE_STATUSES } = await codeLifecycleModule;
+
+  try {
+    // Batches counted on read so far; codeCounts is only ever added once
+    const batchesSnapshot = await db.collection('stickerBatches').select('codeCounts').get();
+    const uncounted = batchesSnapshot.docs.filter(doc => !doc.data().codeCounts);
+    let backfilled = 0;
+
+    for (const batchDoc of uncounted) {
+      if (Date.now() >= deadline) {
+        logger.info(`Recount stopped at its time budget after ${backfilled} batches`);
+        return { backfilled, remaining: uncounted.length - backfilled, completed: false };
+      }
+
+      const codeCounts = await countByStatus(
+        db.collection('stickerCodes').where('batchId', '==', batchDoc.id),
+        CODE_STATUSES
+      );
+      await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(batchDoc.ref);
+        if (current.exists && !current.data().codeCounts) {
+          transaction.update(batchDoc.ref, { codeCounts });
+        }
+      });
+      backfilled++;
+    }
+
+    const { batches } = await recountGlobalCounters();
+    logger.info(`Counters recounted: ${backfilled} batches backfilled, ${batches.total} batches`);
+    return { backfilled, remaining: 0, completed: true };
+  } catch (error) {
+    logger.error('Error recounting counters:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error recounting counters: ' + error.message,
+      error
+    );
+  }
+}
+
+module.exports = {
+  globalCountersRef,
+  globalCounterShardRef,
+  recordBatchStatusChange,
+  codeCountUpdates,
+  recordCodeCountChanges,
+  recountCountersHandler,
+};
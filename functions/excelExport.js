@@ -0,0 +1,117 @@
+// functions/excelExport.js
+
+const ExcelJS = require('exceljs');
+
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+/**
+ * Convert Firestore Timestamps to Dates so Excel stores them as dates
+ * @param {*} value Field value
+ * @returns {*} Excel cell value
+ */
+function toCellValue(value) {
+  if (value && typeof value.toDate === 'function') {
+    return value.toDate();
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+  return value ?? null;
+}
+
+/**
+ * Add a "field: value" row to the metadata sheet
+ * @param {ExcelJS.Worksheet} sheet Metadata sheet
+ * @param {string} field Field label
+ * @param {*} value Field value
+ */
+function addMetadataRow(sheet, field, value) {
+  const cellValue = toCellValue(value);
+  const row = sheet.addRow({ field, value: cellValue });
+
+  // Dates share the value column with other types, so format them per cell
+  if (cellValue instanceof Date) {
+    row.getCell('value').numFmt = DATE_FORMAT;
+  }
+  row.commit();
+}
+
+/**
+ * Add "Label: key" rows for a nested metadata object
+ * @param {ExcelJS.Worksheet} sheet Metadata sheet
+ * @param {string} label Group label (e.g. "Manufacturing")
+ * @param {object|undefined} details Nested fields
+ */
+function addDetailRows(sheet, label, details) {
+  Object.entries(details || {}).forEach(([key, value]) => {
+    addMetadataRow(sheet, `${label}: ${key}`, value);
+  });
+}
+
+/**
+ * Stream a codes workbook: a "Codes" sheet and a "Batch" metadata sheet.
+ * Rows are committed as they are added, so the workbook is never held in memory.
+ * @param {import('stream').Writable} output Output stream (ended when done)
+ * @param {object} params Export parameters
+ * @param {string} params.batchId Batch ID
+ * @param {object} params.batchData Batch document data
+ * @param {AsyncIterable<object>} params.rows Export rows keyed by column key
+ * @param {object[]} params.columns Export columns (see shared/codeExports.mjs)
+ * @returns {Promise<void>}
+ */
+async function writeCodesWorkbook(output, { batchId, batchData, rows, columns }) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false, // Shared strings would be kept in memory
+  });
+  workbook.creator = 'If Found Lost Admin';
+  workbook.created = new Date();
+
+  // Codes sheet
+  const codesSheet = workbook.addWorksheet('Codes', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+  codesSheet.columns = columns.map(column => ({
+    header: column.label,
+    key: column.key,
+    width: column.key === 'url' ? 48 : column.type === 'date' ? 20 : 24,
+    ...(column.type === 'date' ? { style: { numFmt: DATE_FORMAT } } : {}),
+  }));
+  codesSheet.getRow(1).font = { bold: true };
+  for await (const row of rows) {
+    codesSheet.addRow(row).commit();
+  }
+  codesSheet.commit();
+
+  // Batch metadata sheet
+  const batchSheet = workbook.addWorksheet('Batch');
+  batchSheet.columns = [
+    { header: 'Field', key: 'field', width: 28 },
+    { header: 'Value', key: 'value', width: 40 },
+  ];
+  batchSheet.getRow(1).font = { bold: true };
+  [
+    ['Batch ID', batchId],
+    ['Name', batchData.name],
+    ['Description', batchData.description || null],
+    ['Prefix', batchData.prefix],
+    ['Code Length', batchData.codeLength],
+    ['Quantity', batchData.quantity],
+    ['Product Type', batchData.productType || null],
+    ['Distribution Channel', batchData.distributionChannel || null],
+    ['Created At', batchData.createdAt],
+    ['Completed At', batchData.completedAt],
+    ['Expiration Date', batchData.expirationDate],
+  ].forEach(([field, value]) => addMetadataRow(batchSheet, field, value));
+  addDetailRows(batchSheet, 'Manufacturing', batchData.manufacturingDetails);
+  addDetailRows(batchSheet, 'Cost', batchData.costData);
+  addMetadataRow(batchSheet, 'Exported At', new Date());
+  batchSheet.commit();
+
+  await workbook.commit();
+}
+
+module.exports = {
+  writeCodesWorkbook,
+};
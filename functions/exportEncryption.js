@@ -0,0 +1,108 @@
+// functions/exportEncryption.js
+
+const crypto = require('crypto');
+const { PassThrough, Readable } = require('stream');
+const archiver = require('archiver');
+const openpgp = require('openpgp');
+
+archiver.registerFormat('zip-encrypted', require('archiver-zip-encrypted'));
+
+/**
+ * Outer file type per encryption mode; the export file keeps its own name
+ * inside the archive (zip) or gets the extension appended (pgp)
+ */
+const ENCRYPTED_FILE_TYPES = {
+  zip: { contentType: 'application/zip' },
+  pgp: { contentType: 'application/pgp-encrypted' },
+};
+
+// Random bytes per generated ZIP password (24 base64url characters)
+const PASSWORD_BYTES = 18;
+
+/**
+ * Generate a password for a password-protected ZIP export
+ * @returns {string} Password
+ */
+function generateExportPassword() {
+  return crypto.randomBytes(PASSWORD_BYTES).toString('base64url');
+}
+
+/**
+ * Name of the stored file for an encrypted export
+ * @param {string} mode Encryption mode ('zip' or 'pgp')
+ * @param {string} fileName Name of the plain export file
+ * @returns {string} Stored file name
+ */
+function getEncryptedFileName(mode, fileName) {
+  return mode === 'zip'
+    ? fileName.replace(/\.[^.]+$/, '.zip')
+    : `${fileName}.pgp`;
+}
+
+/**
+ * Read and check an armored OpenPGP public key
+ * @param {string} armoredKey Armored public key
+ * @returns {Promise<openpgp.PublicKey>} Key usable for encryption
+ * @throws {Error} When the key is invalid, private, or cannot encrypt
+ */
+async function readEncryptionKey(armoredKey) {
+  const key = await openpgp.readKey({ armoredKey });
+  if (key.isPrivate()) {
+    throw new Error('A public key is required, not a private key');
+  }
+  // Throws when no valid (unexpired, unrevoked) encryption subkey exists
+  await key.getEncryptionKey();
+  return key;
+}
+
+/**
+ * Create the stream an export is written to when it is encrypted. The
+ * encrypted result is piped into `output`, which ends once the export does.
+ * @param {string} mode Encryption mode ('zip' or 'pgp')
+ * @param {import('stream').Writable} output Destination (Storage write stream)
+ * @param {object} params Encryption parameters
+ * @param {string} params.entryName File name inside the ZIP archive
+ * @param {string} [params.password] ZIP password
+ * @param {openpgp.PublicKey} [params.publicKey] Recipient key for pgp
+ * @returns {Promise<import('stream').Writable>} Stream to write the plain export to
+ */
+async function createEncryptedSink(mode, output, { entryName, password, publicKey }) {
+  const input = new PassThrough();
+
+  if (mode === 'zip') {
+    // AES-256 encrypted entries (WinZip AE-2), supported by 7-Zip and most archivers
+    const archive = archiver.create('zip-encrypted', {
+      zlib: { level: 8 },
+      encryptionMethod: 'aes256',
+      password,
+    });
+    archive.on('error', err => output.destroy(err));
+    archive.pipe(output);
+    archive.append(input, { name: entryName });
+    archive.finalize();
+    return input;
+  }
+
+  if (mode === 'pgp') {
+    const message = await openpgp.createMessage({ binary: Readable.toWeb(input) });
+    const encrypted = await openpgp.encrypt({
+      message,
+      encryptionKeys: publicKey,
+      format: 'binary',
+    });
+    const encryptedStream = Readable.fromWeb(encrypted);
+    encryptedStream.on('error', err => output.destroy(err));
+    encryptedStream.pipe(output);
+    return input;
+  }
+
+  throw new Error(`Unknown encryption mode "${mode}"`);
+}
+
+module.exports = {
+  ENCRYPTED_FILE_TYPES,
+  generateExportPassword,
+  getEncryptedFileName,
+  readEncryptionKey,
+  createEncryptedSink,
+};
@@ -0,0 +1,316 @@
+// functions/exportManifest.js
+
+const crypto = require('crypto');
+const { Transform, pipeline } = require('stream');
+const { HttpsError } = require('firebase-functions/v2/https');
+const { defineSecret } = require('firebase-functions/params');
+const logger = require('firebase-functions/logger');
+const admin = require('firebase-admin');
+const { ADMIN_APP_ROLES, requireAdminRole } = require('./adminRoles');
+
+// HMAC key export manifests are signed with; set with `firebase functions:secrets:set`
+const exportSigningKey = defineSecret('EXPORT_SIGNING_KEY');
+
+const MANIFEST_VERSION = 1;
+const SIGNATURE_ALGORITHM = 'HMAC-SHA256';
+
+// Batch statuses of batches in the trash
+const TRASH_BATCH_STATUSES = ['archived', 'deleting'];
+
+/**
+ * Pass a stream through to `destination` while hashing it with SHA-256.
+ * Errors on either side destroy the other, so an aborted export never
+ * leaves the destination waiting.
+ * @param {import('stream').Writable} destination Stream the data is passed to
+ * @returns {{stream: import('stream').Transform, digest: () => string}}
+ *   Stream to write to, and the hex digest once it has ended
+ */
+function createHashTap(destination) {
+  const hash = crypto.createHash('sha256');
+  let digest = null;
+
+  const stream = new Transform({
+    transform(chunk, encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  pipeline(stream, destination, () => {});
+
+  return {
+    stream,
+    digest: () => {
+      digest = digest || hash.digest('hex');
+      return digest;
+    },
+  };
+}
+
+/**
+ * Serialize a manifest with sorted keys so signing does not depend on key order
+ * @param {object} manifest Export manifest
+ * @returns {string} Canonical JSON
+ */
+function canonicalizeManifest(manifest) {
+  return JSON.stringify(
+    Object.keys(manifest).sort().reduce((sorted, key) => {
+      sorted[key] = manifest[key];
+      return sorted;
+    }, {})
+  );
+}
+
+/**
+ * Sign an export manifest
+ * @param {object} manifest Export manifest
+ * @returns {string} Hex HMAC-SHA256 signature
+ */
+function signManifest(manifest) {
+  return crypto
+    .createHmac('sha256', exportSigningKey.value())
+    .update(canonicalizeManifest(manifest))
+    .digest('hex');
+}
+
+/**
+ * Check an export manifest signature
+ * @param {object} manifest Export manifest
+ * @param {string} signature Hex signature to check
+ * @returns {boolean} Whether the signature is valid for the manifest
+ */
+function verifyManifestSignature(manifest, signature) {
+  if (typeof signature !== 'string' || !/^[0-9a-f]{64}$/.test(signature)) {
+    return false;
+  }
+  return crypto.timingSafeEqual(
+    Buffer.from(signManifest(manifest), 'hex'),
+    Buffer.from(signature, 'hex')
+  );
+}
+
+/**
+ * Build the manifest of a finished export
+ * @param {object} params Export details
+ * @returns {object} Manifest; sha256 is the hash of the export content and
+ *   fileSha256 that of the stored file when it is encrypted. exportedAt is
+ *   when the export started reading codes, so verification counts codes
+ *   changed while it ran.
+ */
+function buildManifest({
+  exportId,
+  batchId,
+  batchName,
+  fileName,
+  contentFileName,
+  format,
+  encryptionMode,
+  codeCount,
+  sha256,
+  fileSha256,
+  exportedBy,
+  exportedByEmail,
+  exportedAt,
+}) {
+  return {
+    version: MANIFEST_VERSION,
+    exportId,
+    batchId,
+    batchName: batchName || null,
+    fileName,
+    contentFileName,
+    format,
+    encryption: encryptionMode,
+    codeCount,
+    sha256,
+    fileSha256: fileSha256 || null,
+    exportedBy,
+    exportedByEmail: exportedByEmail || null,
+    exportedAt,
+    signatureAlgorithm: SIGNATURE_ALGORITHM,
+  };
+}
+
+/**
+ * Find the export whose content or stored file has the given hash
+ * @param {FirebaseFirestore.Firestore} db Firestore
+ * @param {string} sha256 Hex SHA-256 of an export file
+ * @returns {Promise<{doc: FirebaseFirestore.QueryDocumentSnapshot, match: string}|null>}
+ *   Export record and whether the file is its 'content' or 'encrypted' file
+ */
+async function findExportByHash(db, sha256) {
+  const exportsRef = db.collection('codeExports');
+
+  const contentSnapshot = await exportsRef.where('manifest.sha256', '==', sha256).limit(1).get();
+  if (!contentSnapshot.empty) {
+    return { doc: contentSnapshot.docs[0], match: 'content' };
+  }
+
+  const fileSnapshot = await exportsRef.where('manifest.fileSha256', '==', sha256).limit(1).get();
+  if (!fileSnapshot.empty) {
+    return { doc: fileSnapshot.docs[0], match: 'encrypted' };
+  }
+
+  return null;
+}
+
+/**
+ * Count a batch's codes whose status (or owner) changed after a time;
+ * every code change records statusChangedAt
+ * @param {FirebaseFirestore.Firestore} db Firestore
+ * @param {string} batchId Batch ID
+ * @param {string} since ISO date
+ * @returns {Promise<number|null>} Changed codes, or null without a valid date
+ */
+async function countCodesChangedSince(db, batchId, since) {
+  const sinceMs = Date.parse(since);
+  if (Number.isNaN(sinceMs)) {
+    return null;
+  }
+
+  const snapshot = await db.collection('stickerCodes')
+    .where('batchId', '==', batchId)
+    .where('statusChangedAt', '>', admin.firestore.Timestamp.fromMillis(sinceMs))
+    .count()
+    .get();
+  return snapshot.data().count;
+}
+
+/**
+ * Handler for checking an export file against the signed export manifests
+ * and the current state of its batch: a file is only verified when its
+ * batch is still in use and none of the batch's codes changed (disabled,
+ * transferred, ...) since the export. The client hashes the file; the file
+ * itself is never uploaded.
+ */
+async function verifyExportHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to verify exports'
+    );
+  }
+
+  const { sha256, manifest = null, signature = null } = data;
+
+  if (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(sha256)) {
+    throw new HttpsError(
+      'invalid-argument',
+      'A hex SHA-256 hash of the file is required'
+    );
+  }
+  if (manifest !== null && (typeof manifest !== 'object' || Array.isArray(manifest))) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Manifest must be an object'
+    );
+  }
+  await requireAdminRole(context.auth, ADMIN_APP_ROLES, 'verify exports');
+
+  const db = admin.firestore();
+  const problems = [];
+
+  try {
+    // A manifest supplied with the file must be genuine and describe this file
+    let providedManifest = null;
+    if (manifest) {
+      const signatureValid = verifyManifestSignature(manifest, signature);
+      const fileMatches = manifest.sha256 === sha256 || manifest.fileSha256 === sha256;
+      if (!signatureValid) {
+        problems.push('The manifest signature is invalid; the manifest was altered or not issued by us');
+      }
+      if (!fileMatches) {
+        problems.push('The file does not match the checksum in the manifest');
+      }
+      providedManifest = { signatureValid, fileMatches };
+    }
+
+    // The export record this file was produced by
+    const found = await findExportByHash(db, sha256);
+    let exportRecord = null;
+    let recordManifest = null;
+    if (found) {
+      const record = found.doc.data();
+      recordManifest = record.manifest;
+      const signatureValid = verifyManifestSignature(record.manifest, record.signature);
+      if (!signatureValid) {
+        problems.push('The export record manifest has an invalid signature');
+      }
+      exportRecord = {
+        exportId: found.doc.id,
+        match: found.match,
+        signatureValid,
+        status: record.status || 'completed'
+      };
+    } else {
+      problems.push('No export with this checksum was found; the file was altered or not exported from this system');
+    }
+
+    if (manifest && recordManifest && manifest.exportId !== recordManifest.exportId) {
+      problems.push('The manifest belongs to a different export than the file');
+    }
+
+    // The batch the export was taken from
+    const batchId = recordManifest?.batchId || manifest?.batchId;
+    let batch = null;
+    if (batchId) {
+      const batchDoc = await db.collection('stickerBatches').doc(batchId).get();
+      if (batchDoc.exists) {
+        const batchData = batchDoc.data();
+        const codeCounts = batchData.codeCounts;
+        const exportedAt = recordManifest?.exportedAt || manifest?.exportedAt;
+        const changedSinceExport = await countCodesChangedSince(db, batchId, exportedAt);
+        batch = {
+          batchId,
+          exists: true,
+          name: batchData.name,
+          status: batchData.status,
+          codeCount: codeCounts
+            ? Object.values(codeCounts).reduce((sum, count) => sum + count, 0)
+            : batchData.generatedCount || 0,
+          changedSinceExport
+        };
+        if (TRASH_BATCH_STATUSES.includes(batchData.status)) {
+          problems.push('The batch this export was taken from is in the trash');
+        }
+        if (changedSinceExport > 0) {
+          problems.push(
+            `${changedSinceExport} codes of the batch changed since the export ` +
+            '(disabled, transferred or otherwise updated)'
+          );
+        }
+      } else {
+        batch = { batchId, exists: false, name: null, status: null, codeCount: null, changedSinceExport: null };
+        problems.push('The batch this export was taken from no longer exists');
+      }
+    }
+
+    return {
+      verified: problems.length === 0,
+      manifest: recordManifest || manifest,
+      exportRecord,
+      providedManifest,
+      batch,
+      problems
+    };
+  } catch (error) {
+    logger.error('Error verifying export:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error verifying export: ' + error.message,
+      error
+    );
+  }
+}
+
+module.exports = {
+  exportSigningKey,
+  createHashTap,
+  buildManifest,
+  signManifest,
+  verifyManifestSignature,
+  verifyExportHandler,
+};
@@ -0,0 +1,216 @@
+// functions/exportRetention.js
+
+const logger = require('firebase-functions/logger');
+const admin = require('firebase-admin');
+const { defineInt } = require('firebase-functions/params');
+
+/**
+ * Days an export file is kept in Storage before the cleanup deletes it,
+ * unless its codeExports record has keep: true
+ */
+const exportRetentionDays = defineInt('EXPORT_RETENTION_DAYS', {
+  default: 30,
+  description: 'Days to keep exported code files in Storage (exports flagged "keep" are never deleted)',
+});
+
+// Export records read per page by the cleanup
+const CLEANUP_PAGE_SIZE = 200;
+
+// Running exports older than this are treated as timed out; exportCodes
+// itself stops after 5 minutes
+const STALE_EXPORT_MS = 60 * 60 * 1000;
+
+/**
+ * Run a handler over every record of a query, a page at a time. The
+ * handler's updates must take records out of the query, so each page is
+ * read from the start and no record is read twice.
+ * @param {FirebaseFirestore.Query} query Records to process
+ * @param {(docSnap: FirebaseFirestore.QueryDocumentSnapshot) => Promise<boolean>} handler
+ *   Processes one record; returns false when the record stays in the query
+ */
+async function processRecords(query, handler) {
+  let lastDoc = null;
+
+  for (;;) {
+    let pageQuery = query.orderBy('timestamp').limit(CLEANUP_PAGE_SIZE);
+    if (lastDoc) {
+      pageQuery = pageQuery.startAfter(lastDoc);
+    }
+
+    const snapshot = await pageQuery.get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    let remaining = null;
+    for (const docSnap of snapshot.docs) {
+      if (!await handler(docSnap)) {
+        remaining = docSnap;
+      }
+    }
+
+    // Records the handler left in place are skipped by the next page
+    lastDoc = remaining;
+    if (snapshot.size < CLEANUP_PAGE_SIZE) {
+      break;
+    }
+  }
+}
+
+/**
+ * Give records from before status tracking (no status field) the completed
+ * status, so the cleanup can find them by status. They are all older than
+ * the oldest record with a status, and once backfilled that record is one
+ * of them, so later runs find nothing to backfill.
+ * @param {FirebaseFirestore.Firestore} db Firestore
+ * @returns {Promise<number>} Backfilled records
+ */
+async function backfillLegacyExportStatus(db) {
+  const exports = db.collection('codeExports');
+  const oldestTracked = await exports
+    .where('status', 'in', ['running', 'completed', 'failed', 'expired'])
+    .orderBy('timestamp')
+    .limit(1)
+    .get();
+
+  let legacyQuery = exports;
+  if (!oldestTracked.empty) {
+    legacyQuery = legacyQuery.where('timestamp', '<', oldestTracked.docs[0].data().timestamp);
+  }
+
+  let backfilled = 0;
+  await processRecords(legacyQuery, async (docSnap) => {
+    if (docSnap.data().status) {
+      return false;
+    }
+    await docSnap.ref.update({ status: 'completed' });
+    backfilled++;
+    return true;
+  });
+
+  return backfilled;
+}
+
+/**
+ * Fail exports left running by an instance that stopped before it could
+ * record the outcome, and delete their partial files
+ * @param {FirebaseFirestore.Firestore} db Firestore
+ * @param {import('@google-cloud/storage').Bucket} bucket Export bucket
+ * @returns {Promise<number>} Timed out exports
+ */
+async function failStaleExports(db, bucket) {
+  const staleCutoff = admin.firestore.Timestamp.fromMillis(Date.now() - STALE_EXPORT_MS);
+  const staleQuery = db.collection('codeExports')
+    .where('status', '==', 'running')
+    .where('timestamp', '<', staleCutoff);
+
+  let timedOut = 0;
+  await processRecords(staleQuery, async (docSnap) => {
+    try {
+      await bucket.file(docSnap.data().storagePath).delete({ ignoreNotFound: true });
+      await docSnap.ref.update({
+        status: 'failed',
+        error: 'Export timed out',
+        finishedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      timedOut++;
+      return true;
+    } catch (err) {
+      logger.error(`Failed to time out export ${docSnap.id}:`, err);
+      return false;
+    }
+  });
+
+  return timedOut;
+}
+
+/**
+ * Fail ZIP exports whose password never reached the client, e.g. because
+ * the call timed out or the connection dropped: the password is not
+ * stored, so their files can never be opened. Deletes the files.
+ * @param {FirebaseFirestore.Firestore} db Firestore
+ * @param {import('@google-cloud/storage').Bucket} bucket Export bucket
+ * @returns {Promise<number>} Failed exports
+ */
+async function failUnconfirmedPasswordExports(db, bucket) {
+  const staleCutoff = admin.firestore.Timestamp.fromMillis(Date.now() - STALE_EXPORT_MS);
+  const unconfirmedQuery = db.collection('codeExports')
+    .where('status', '==', 'completed')
+    .where('passwordReceived', '==', false)
+    .where('timestamp', '<', staleCutoff);
+
+  let failed = 0;
+  await processRecords(unconfirmedQuery, async (docSnap) => {
+    try {
+      await bucket.file(docSnap.data().storagePath).delete({ ignoreNotFound: true });
+      await docSnap.ref.update({
+        status: 'failed',
+        error: 'The ZIP password never reached the browser; export the codes again',
+        finishedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      failed++;
+      return true;
+    } catch (err) {
+      logger.error(`Failed to fail unconfirmed export ${docSnap.id}:`, err);
+      return false;
+    }
+  });
+
+  return failed;
+}
+
+/**
+ * Delete export files older than the retention period and mark their
+ * codeExports records expired. Only completed records are read: expired
+ * records drop out of the query, and failed exports never left a file
+ * behind. Exports stuck running, and ZIP exports whose password never
+ * reached the client, are failed first, deleting their files.
+ * @returns {Promise<{expired: number, kept: number, timedOut: number, unconfirmed: number}>} Counts for the log
+ */
+async function cleanupExpiredExports() {
+  const db = admin.firestore();
+  const bucket = admin.storage().bucket();
+  const retentionMs = exportRetentionDays.value() * 24 * 60 * 60 * 1000;
+  const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - retentionMs);
+
+  const backfilled = await backfillLegacyExportStatus(db);
+  if (backfilled > 0) {
+    logger.info(`Backfilled the status of ${backfilled} exports from before status tracking`);
+  }
+
+  const timedOut = await failStaleExports(db, bucket);
+  const unconfirmed = await failUnconfirmedPasswordExports(db, bucket);
+
+  const expiredQuery = db.collection('codeExports')
+    .where('status', '==', 'completed')
+    .where('timestamp', '<', cutoff);
+
+  let expired = 0;
+  let kept = 0;
+  await processRecords(expiredQuery, async (docSnap) => {
+    const record = docSnap.data();
+    if (record.keep) {
+      kept++;
+      return false;
+    }
+
+    try {
+      await bucket.file(record.storagePath).delete({ ignoreNotFound: true });
+      await docSnap.ref.update({
+        status: 'expired',
+        expiredAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      expired++;
+      return true;
+    } catch (err) {
+      logger.error(`Failed to expire export ${docSnap.id}:`, err);
+      return false;
+    }
+  });
+
+  return { expired, kept, timedOut, unconfirmed };
+}
+
+module.exports = {
+  cleanupExpiredExports,
+};
@@ -0,0 +1,87 @@
+// functions/exportStreams.js
+
+const { once } = require('events');
+
+/**
+ * File name prefix, extension and content type per export format
+ */
+const EXPORT_FILE_TYPES = {
+  csv: { prefix: 'codes', extension: 'csv', contentType: 'text/csv' },
+  json: { prefix: 'codes', extension: 'json', contentType: 'application/json' },
+  excel: {
+    prefix: 'codes',
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  pdf: { prefix: 'stickers', extension: 'pdf', contentType: 'application/pdf' },
+};
+
+/**
+ * Write to a stream, waiting for it to drain when its buffer is full
+ * @param {import('stream').Writable} output Output stream
+ * @param {string} chunk Data to write
+ * @returns {Promise<void>}
+ */
+async function writeChunk(output, chunk) {
+  if (!output.write(chunk)) {
+    await once(output, 'drain');
+  }
+}
+
+/**
+ * Format a value as a CSV field
+ * @param {*} value Field value
+ * @returns {string} CSV field, quoted when needed
+ */
+function toCsvField(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stream rows as CSV
+ * @param {import('stream').Writable} output Output stream (ended when done)
+ * @param {AsyncIterable<object>} rows Export rows keyed by column key
+ * @param {object[]} columns Export columns
+ * @returns {Promise<void>}
+ */
+async function writeCsv(output, rows, columns) {
+  await writeChunk(output, columns.map(column => column.header).join(',') + '\n');
+
+  for await (const row of rows) {
+    await writeChunk(output, columns.map(column => toCsvField(row[column.key])).join(',') + '\n');
+  }
+
+  output.end();
+}
+
+/**
+ * Stream rows as a JSON document: { ...header, codes: [rows] }
+ * @param {import('stream').Writable} output Output stream (ended when done)
+ * @param {AsyncIterable<object>} rows Export rows keyed by column key
+ * @param {object} header Top-level fields written before the codes
+ * @returns {Promise<void>}
+ */
+async function writeJson(output, rows, header) {
+  const opening = JSON.stringify(header, null, 2).replace(/\n}$/, '');
+  await writeChunk(output, `${opening},\n  "codes": [`);
+
+  let first = true;
+  for await (const row of rows) {
+    await writeChunk(output, `${first ? '' : ','}\n    ${JSON.stringify(row)}`);
+    first = false;
+  }
+
+  output.end(`${first ? '' : '\n  '}]\n}\n`);
+}
+
+module.exports = {
+  EXPORT_FILE_TYPES,
+  writeChunk,
+  toCsvField,
+  writeCsv,
+  writeJson,
+};
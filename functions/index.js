@@ -3,6 +3,7 @@
 // 1) Admin SDK
 const admin = require('firebase-admin');
 const { onSchedule } = require('firebase-functions/v2/scheduler');
+const { onDocumentWritten } = require('firebase-functions/v2/firestore');
 admin.initializeApp(); // This initializes all Firebase services including Storage
 
 // 2) Import Firebase Functions v2 instead of v1
@@ -135,10 +136,53 @@ exports.autoUnlockUsers = onSchedule(
   }
 );
 
+// 4b) Daily cleanup of export files past the retention period
+const { cleanupExpiredExports } = require('./exportRetention');
+
+exports.cleanupExpiredExports = onSchedule(
+  {
+    schedule: 'every 24 hours',
+    region: 'us-central1',
+    timeoutSeconds: 540,
+  },
+  async (context) => {
+    const { expired, kept, timedOut, unconfirmed } = await cleanupExpiredExports();
+    logger.info(
+      `Expired ${expired} exports (${kept} past retention kept), timed out ${timedOut}, ` +
+      `failed ${unconfirmed} whose ZIP password was never received`
+    );
+    return null;
+  }
+);
+
+// 4c) Purge of batches whose time in the trash is up; also resumes
+// purges that stopped at their time budget
+const batchPurge = require('./batchPurge');
+
+exports.purgeArchivedBatches = onSchedule(
+  {
+    schedule: 'every 10 minutes',
+    region: 'us-central1',
+    timeoutSeconds: 540,
+  },
+  async (context) => {
+    const { purged, unfinished, skipped } = await batchPurge.purgeArchivedBatches();
+    if (purged || unfinished || skipped) {
+      logger.info(`Purged ${purged} batches (${unfinished} unfinished, ${skipped} skipped with assigned codes)`);
+    }
+    return null;
+  }
+);
+
 // 5) Import the code generator functions
 const codeGenerator = require('./codeGenerator');
+const printerVendors = require('./printerVendors');
+const exportManifest = require('./exportManifest');
+const codeOperations = require('./codeOperations');
+const counters = require('./counters');
+const keyspaceCapacity = require('./keyspaceCapacity');
 
-// Generate batch function - updated to v2
+// Generate batch function - queues a generation job
 exports.generateCodeBatch = onCall(
   {
     region: 'us-central1',
@@ -153,16 +197,82 @@ exports.generateCodeBatch = onCall(
   }
 );
 
+// Generation queue worker - processes queued generationJobs documents
+exports.processGenerationJob = onDocumentWritten(
+  {
+    document: 'generationJobs/{jobId}',
+    region: 'us-central1',
+    maxInstances: 10,
+    timeoutSeconds: 300,
+    memory: '512MiB',
+  },
+  async (event) => {
+    return await codeGenerator.processGenerationJobHandler(event);
+  }
+);
+
+// Resume a stuck or failed batch from its checkpoint
+exports.resumeCodeBatch = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10, timeoutSeconds: 300 },
+  async (req) => {
+    logger.info('👀 resumeCodeBatch – req.auth =', req.auth);
+    return await codeGenerator.resumeCodeBatchHandler(req.data, { auth: req.auth });
+  }
+);
+
 // Export codes function - updated to v2
 exports.exportCodes = onCall(
-  { region: 'us-central1', minInstances: 0, maxInstances: 10, timeoutSeconds: 300 },
+  {
+    region: 'us-central1',
+    minInstances: 0,
+    maxInstances: 10,
+    timeoutSeconds: 300,
+    memory: '1GiB',
+    secrets: [exportManifest.exportSigningKey]
+  },
   async (req) => {
     logger.info('👀 exportCodes – req.auth =', req.auth);
     return await codeGenerator.exportCodesHandler(req.data, { auth: req.auth });
   }
 );
 
-// Delete batch function - updated to v2
+// Fresh download URL for an existing export
+exports.refreshExportUrl = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 refreshExportUrl – req.auth =', req.auth);
+    return await codeGenerator.refreshExportUrlHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Confirm the client received the password of a ZIP export
+exports.confirmExportPassword = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 confirmExportPassword – req.auth =', req.auth);
+    return await codeGenerator.confirmExportPasswordHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Check an export file against the signed export manifests
+exports.verifyExport = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10, secrets: [exportManifest.exportSigningKey] },
+  async (req) => {
+    logger.info('👀 verifyExport – req.auth =', req.auth);
+    return await exportManifest.verifyExportHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Add or update a printer vendor's export encryption key
+exports.savePrinterVendor = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 savePrinterVendor – req.auth =', req.auth);
+    return await printerVendors.savePrinterVendorHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Delete batch function - moves the batch to the trash
 exports.deleteBatch = onCall(
   { region: 'us-central1', minInstances: 0, maxInstances: 10, timeoutSeconds: 300 },
   async (req) => {
@@ -170,3 +280,84 @@ exports.deleteBatch = onCall(
     return await codeGenerator.deleteBatchHandler(req.data, { auth: req.auth });
   }
 );
+
+// Permanently delete a batch from the trash
+exports.purgeBatch = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10, timeoutSeconds: 300 },
+  async (req) => {
+    logger.info('👀 purgeBatch – req.auth =', req.auth);
+    return await batchPurge.purgeBatchHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Restore a batch from the trash
+exports.restoreBatch = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 restoreBatch – req.auth =', req.auth);
+    return await codeGenerator.restoreBatchHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Disable, re-enable or reset many codes of a batch at once
+exports.bulkUpdateCodes = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10, timeoutSeconds: 300 },
+  async (req) => {
+    logger.info('👀 bulkUpdateCodes – req.auth =', req.auth);
+    return await codeOperations.bulkUpdateCodesHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Disable (with a reason) or re-enable a list of codes or a batch's codes
+exports.setCodesDisabled = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10, timeoutSeconds: 300 },
+  async (req) => {
+    logger.info('👀 setCodesDisabled – req.auth =', req.auth);
+    return await codeOperations.setCodesDisabledHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Change one code's status, enforcing the code lifecycle transitions
+exports.updateCodeStatus = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 updateCodeStatus – req.auth =', req.auth);
+    return await codeOperations.updateCodeStatusHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Release an assigned code from its owner, with a reason
+exports.unassignCode = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 unassignCode – req.auth =', req.auth);
+    return await codeOperations.unassignCodeHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Move an assigned code to another owner, with a reason
+exports.transferCode = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 transferCode – req.auth =', req.auth);
+    return await codeOperations.transferCodeHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Recount the stored batch and code counters
+exports.recountCounters = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10, timeoutSeconds: 300 },
+  async (req) => {
+    logger.info('👀 recountCounters – req.auth =', req.auth);
+    return await counters.recountCountersHandler(req.data, { auth: req.auth });
+  }
+);
+
+// Estimate the keyspace a new batch would use, checked against the threshold
+exports.getKeyspaceCapacity = onCall(
+  { region: 'us-central1', minInstances: 0, maxInstances: 10 },
+  async (req) => {
+    logger.info('👀 getKeyspaceCapacity – req.auth =', req.auth);
+    return await keyspaceCapacity.getKeyspaceCapacityHandler(req.data, { auth: req.auth });
+  }
+);
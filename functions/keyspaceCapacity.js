@@ -0,0 +1,137 @@
+// functions/keyspaceCapacity.js
+
+const { HttpsError } = require('firebase-functions/v2/https');
+const { defineString } = require('firebase-functions/params');
+const admin = require('firebase-admin');
+const { ADMIN_ROLES, requireAdminRole } = require('./adminRoles');
+
+// Shared code generation module (ES module, loaded once per instance)
+const codeGenerationModule = import('./shared/codeGeneration.mjs');
+
+/**
+ * Largest collision probability a new batch may leave its prefix/length
+ * keyspace at. A string parameter, as params have no decimal type.
+ */
+const maxCollisionProbability = defineString('MAX_COLLISION_PROBABILITY', {
+  default: '0.01',
+  description: 'Largest chance (0-1) that a random candidate code collides once a new batch is written',
+  input: {
+    text: {
+      validationRegex: '^(0(\\.\\d+)?|1(\\.0+)?)$',
+      validationErrorMessage: 'Enter a number between 0 and 1, e.g. 0.01',
+    },
+  },
+});
+
+/**
+ * Configured collision threshold, or the default when it is not a
+ * probability
+ * @returns {Promise<number>} Largest collision probability allowed
+ */
+async function getMaxCollisionProbability() {
+  const { DEFAULT_MAX_COLLISION_PROBABILITY } = await codeGenerationModule;
+  const value = Number(maxCollisionProbability.value());
+  return Number.isFinite(value) && value >= 0 && value <= 1
+    ? value
+    : DEFAULT_MAX_COLLISION_PROBABILITY;
+}
+
+/**
+ * Count the codes issued for a prefix/length pair: generating batches
+ * count their full quantity (reserved), others their generated count
+ * @param {string} prefix Code prefix
+ * @param {number} codeLength Length of the random part
+ * @param {string} [excludeBatchId] Batch left out, e.g. the one being checked
+ * @returns {Promise<number>} Issued codes
+ */
+async function countIssuedCodes(prefix, codeLength, excludeBatchId) {
+  const snapshot = await admin.firestore().collection('stickerBatches')
+    .where('prefix', '==', prefix)
+    .where('codeLength', '==', codeLength)
+    .get();
+
+  let usedCount = 0;
+  snapshot.forEach(batchDoc => {
+    if (batchDoc.id === excludeBatchId) {
+      return;
+    }
+    const batch = batchDoc.data();
+    usedCount += batch.status === 'generating' ? batch.quantity : batch.generatedCount || 0;
+  });
+  return usedCount;
+}
+
+/**
+ * Estimate the keyspace a batch would use and check it against the
+ * configured threshold
+ * @param {string} prefix Code prefix
+ * @param {number} codeLength Length of the random part
+ * @param {number} quantity Codes the batch adds
+ * @param {string} [excludeBatchId] Batch being checked, when it already exists
+ * @returns {Promise<object>} Capacity check (see checkKeyspaceCapacity)
+ */
+async function getKeyspaceCapacity(prefix, codeLength, quantity, excludeBatchId) {
+  const { checkKeyspaceCapacity } = await codeGenerationModule;
+  const usedCount = await countIssuedCodes(prefix, codeLength, excludeBatchId);
+  return checkKeyspaceCapacity(codeLength, usedCount, quantity, await getMaxCollisionProbability());
+}
+
+/**
+ * Message for a batch refused by the capacity check
+ * @param {object} capacity Capacity check
+ * @param {string} prefix Code prefix
+ * @param {number} codeLength Length of the random part
+ * @returns {string} Message
+ */
+function getCapacityError(capacity, prefix, codeLength) {
+  return `This batch would fill ${(capacity.collisionProbability * 100).toFixed(2)}% of the ` +
+    `${prefix} keyspace for ${codeLength}-character codes ` +
+    `(limit ${(capacity.maxCollisionProbability * 100).toFixed(2)}%). ` +
+    'Use a longer code length or a different prefix.';
+}
+
+/**
+ * Handler for estimating the keyspace a new batch would use, for the
+ * batch creation form
+ */
+async function getKeyspaceCapacityHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to check keyspace capacity'
+    );
+  }
+
+  // Validate input
+  const { prefix, codeLength, quantity } = data;
+  if (typeof prefix !== 'string' || !prefix) {
+    throw new HttpsError('invalid-argument', 'Prefix is required');
+  }
+  if (!Number.isInteger(codeLength) || codeLength < 1) {
+    throw new HttpsError('invalid-argument', 'Code length must be a positive whole number');
+  }
+  if (!Number.isInteger(quantity) || quantity < 0) {
+    throw new HttpsError('invalid-argument', 'Quantity must be a whole number');
+  }
+  await requireAdminRole(context.auth, ADMIN_ROLES, 'create batches');
+
+  try {
+    return await getKeyspaceCapacity(prefix, codeLength, quantity);
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError(
+      'internal',
+      'Error checking keyspace capacity: ' + error.message,
+      error
+    );
+  }
+}
+
+module.exports = {
+  getCapacityError,
+  getKeyspaceCapacity,
+  getKeyspaceCapacityHandler,
+};
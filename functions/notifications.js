@@ -0,0 +1,44 @@
+// functions/notifications.js
+
+const admin = require('firebase-admin');
+const { defineString } = require('firebase-functions/params');
+
+/**
+ * Collection watched by the Trigger Email extension (firestore-send-email);
+ * each document written to it is sent as one email
+ */
+const mailCollection = defineString('MAIL_COLLECTION', {
+  default: 'mail',
+  description: 'Firestore collection the Trigger Email extension sends from',
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check an email address well enough to catch typos
+ * @param {string} email Address to check
+ * @returns {boolean} Whether it looks like an email address
+ */
+function isValidEmail(email) {
+  return EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Queue a plain text email. Written by the caller's transaction or write
+ * batch, so it is only sent if the change it reports is made.
+ * @param {FirebaseFirestore.Transaction|FirebaseFirestore.WriteBatch} writer Writer
+ * @param {string} to Recipient address
+ * @param {{subject: string, text: string}} message Email content
+ */
+function queueNotificationEmail(writer, to, message) {
+  writer.set(admin.firestore().collection(mailCollection.value()).doc(), {
+    to,
+    message,
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+}
+
+module.exports = {
+  isValidEmail,
+  queueNotificationEmail,
+};
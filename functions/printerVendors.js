@@ -0,0 +1,89 @@
+// functions/printerVendors.js
+
+const { HttpsError } = require('firebase-functions/v2/https');
+const logger = require('firebase-functions/logger');
+const admin = require('firebase-admin');
+const { readEncryptionKey } = require('./exportEncryption');
+const { ADMIN_ROLES, requireAdminRole } = require('./adminRoles');
+
+/**
+ * Load a printer vendor and its export encryption key
+ * @param {string} vendorId printerVendors document ID
+ * @returns {Promise<{vendor: object, publicKey: object}|null>} Vendor and key, or null when missing
+ */
+async function loadVendorKey(vendorId) {
+  const vendorDoc = await admin.firestore().collection('printerVendors').doc(vendorId).get();
+  if (!vendorDoc.exists) {
+    return null;
+  }
+
+  const vendor = { id: vendorDoc.id, ...vendorDoc.data() };
+  return { vendor, publicKey: await readEncryptionKey(vendor.publicKey) };
+}
+
+/**
+ * Handler for adding or updating a printer vendor's public key.
+ * The key is validated here so exports never fail on an unusable key.
+ */
+async function savePrinterVendorHandler(data, context) {
+  // Validate authentication
+  if (!context.auth) {
+    throw new HttpsError(
+      'unauthenticated',
+      'Authentication required to manage printer vendors'
+    );
+  }
+  await requireAdminRole(context.auth, ADMIN_ROLES, 'manage printer vendors');
+
+  const { vendorId, name, publicKey } = data;
+
+  if (!name || !name.trim() || !publicKey) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Vendor name and public key are required'
+    );
+  }
+
+  let key;
+  try {
+    key = await readEncryptionKey(publicKey);
+  } catch (error) {
+    throw new HttpsError('invalid-argument', `Invalid public key: ${error.message}`);
+  }
+
+  const db = admin.firestore();
+
+  try {
+    const vendorRef = vendorId
+      ? db.collection('printerVendors').doc(vendorId)
+      : db.collection('printerVendors').doc();
+
+    await vendorRef.set({
+      name: name.trim(),
+      publicKey: key.armor(),
+      keyFingerprint: key.getFingerprint().toUpperCase(),
+      keyUserIds: key.getUserIDs(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: context.auth.uid,
+      ...(vendorId ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() })
+    }, { merge: true });
+
+    return {
+      success: true,
+      vendorId: vendorRef.id,
+      keyFingerprint: key.getFingerprint().toUpperCase()
+    };
+  } catch (error) {
+    logger.error('Error saving printer vendor:', error);
+    throw new HttpsError(
+      'internal',
+      'Error saving printer vendor: ' + error.message,
+      error
+    );
+  }
+}
+
+module.exports = {
+  loadVendorKey,
+  savePrinterVendorHandler,
+};
@@ -0,0 +1,63 @@
+// functions/shared/codeExports.d.mts
+
+import type { CodeStatus } from './codeLifecycle.mjs';
+
+export type ExportFormat = 'csv' | 'excel' | 'json' | 'pdf';
+
+export type ExportColumnKey =
+  | 'status'
+  | 'createdAt'
+  | 'assignedTo'
+  | 'assignedAt'
+  | 'expirationDate'
+  | 'productType'
+  | 'url';
+
+export type ExportCodeStatus = CodeStatus;
+
+export type ExportEncryptionMode = 'none' | 'zip' | 'pgp';
+
+export interface ExportEncryptionOptions {
+  mode: ExportEncryptionMode;
+  vendorId?: string | null;
+}
+
+export interface ExportColumn {
+  key: ExportColumnKey | 'code';
+  header: string;
+  label: string;
+  type: 'string' | 'date';
+}
+
+export declare const EXPORT_FORMATS: ExportFormat[];
+
+export declare const CODE_STATUSES: ExportCodeStatus[];
+
+export declare const ENCRYPTION_MODES: ExportEncryptionMode[];
+
+export declare const EXPORT_COLUMNS: ExportColumn[];
+
+export declare const CODE_COLUMN: ExportColumn;
+
+export declare const DEFAULT_EXPORT_COLUMNS: ExportColumnKey[];
+
+export interface ExportOptionsInput {
+  format?: ExportFormat;
+  includeStatus?: boolean;
+  columns?: ExportColumnKey[];
+  statuses?: ExportCodeStatus[] | null;
+  createdFrom?: string | null;
+  createdTo?: string | null;
+  encryption?: ExportEncryptionOptions;
+}
+
+export interface NormalizedExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  statuses: ExportCodeStatus[] | null;
+  createdFrom: Date | null;
+  createdTo: Date | null;
+  encryption: { mode: ExportEncryptionMode; vendorId: string | null };
+}
+
+export declare function normalizeExportOptions(data?: ExportOptionsInput): NormalizedExportOptions;
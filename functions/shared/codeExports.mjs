@@ -0,0 +1,136 @@
+// functions/shared/codeExports.mjs
+
+/**
+ * Code export options shared by the admin app (export dialog) and the
+ * exportCodes Cloud Function, which validates them with normalizeExportOptions.
+ */
+
+import { CODE_STATUSES } from './codeLifecycle.mjs';
+
+// Exports filter by the code lifecycle statuses
+export { CODE_STATUSES };
+
+export const EXPORT_FORMATS = ['csv', 'excel', 'json', 'pdf'];
+
+/**
+ * Export encryption modes: none, a password-protected (AES-256) ZIP whose
+ * password is returned once to the exporter, or OpenPGP encryption to a
+ * printer vendor's stored public key
+ */
+export const ENCRYPTION_MODES = ['none', 'zip', 'pgp'];
+
+/**
+ * Optional export columns; the code itself is always the first column.
+ * `header` is used by CSV/JSON, `label` by Excel and the export dialog.
+ */
+export const EXPORT_COLUMNS = [
+  { key: 'status', header: 'Status', label: 'Status', type: 'string' },
+  { key: 'createdAt', header: 'CreatedAt', label: 'Created At', type: 'date' },
+  { key: 'assignedTo', header: 'AssignedTo', label: 'Assigned To', type: 'string' },
+  { key: 'assignedAt', header: 'AssignedAt', label: 'Assigned At', type: 'date' },
+  { key: 'expirationDate', header: 'ExpirationDate', label: 'Expiration Date', type: 'date' },
+  { key: 'productType', header: 'ProductType', label: 'Product Type', type: 'string' },
+  { key: 'url', header: 'Url', label: 'Print URL', type: 'string' },
+];
+
+export const CODE_COLUMN = { key: 'code', header: 'Code', label: 'Code', type: 'string' };
+
+// Columns of the original export when includeStatus was set
+export const DEFAULT_EXPORT_COLUMNS = ['status', 'createdAt'];
+
+/**
+ * Parse an optional ISO date option
+ * @param {string|null|undefined} value ISO date string
+ * @param {string} name Option name for the error message
+ * @returns {Date|null} Parsed date
+ */
+function parseDateOption(value, name) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new RangeError(`${name} is not a valid date`);
+  }
+  return date;
+}
+
+/**
+ * Validate export options and fill in defaults
+ * @param {object} data Export request
+ * @param {string} [data.format] One of EXPORT_FORMATS
+ * @param {boolean} [data.includeStatus] Legacy switch for the default columns
+ * @param {string[]} [data.columns] Keys of EXPORT_COLUMNS, in any order
+ * @param {string[]} [data.statuses] Only export codes with these statuses
+ * @param {string} [data.createdFrom] Only export codes created at or after this ISO date
+ * @param {string} [data.createdTo] Only export codes created at or before this ISO date
+ * @param {{mode: string, vendorId?: string}} [data.encryption] Encryption of the export file
+ * @returns {{format: string, columns: object[], statuses: string[]|null, createdFrom: Date|null,
+ *   createdTo: Date|null, encryption: {mode: string, vendorId: string|null}}}
+ *   Normalized options; columns are column definitions including the code column
+ * @throws {RangeError} When an option is invalid
+ */
+export function normalizeExportOptions(data = {}) {
+  const {
+    format = 'csv',
+    includeStatus = true,
+    columns,
+    statuses,
+    createdFrom,
+    createdTo,
+    encryption = { mode: 'none' },
+  } = data;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new RangeError('Invalid format specified');
+  }
+
+  const columnKeys = columns ?? (includeStatus ? DEFAULT_EXPORT_COLUMNS : []);
+  if (!Array.isArray(columnKeys)) {
+    throw new RangeError('columns must be an array');
+  }
+  const unknownColumn = columnKeys.find(key => !EXPORT_COLUMNS.some(column => column.key === key));
+  if (unknownColumn) {
+    throw new RangeError(`Unknown export column "${unknownColumn}"`);
+  }
+
+  let statusFilter = null;
+  if (statuses !== undefined && statuses !== null) {
+    if (!Array.isArray(statuses) || statuses.length === 0) {
+      throw new RangeError('statuses must be a non-empty array');
+    }
+    const unknownStatus = statuses.find(status => !CODE_STATUSES.includes(status));
+    if (unknownStatus) {
+      throw new RangeError(`Unknown code status "${unknownStatus}"`);
+    }
+    // Filtering on every status is the same as not filtering
+    statusFilter = statuses.length < CODE_STATUSES.length ? [...new Set(statuses)] : null;
+  }
+
+  const from = parseDateOption(createdFrom, 'createdFrom');
+  const to = parseDateOption(createdTo, 'createdTo');
+  if (from && to && from > to) {
+    throw new RangeError('createdFrom must be before createdTo');
+  }
+
+  const encryptionMode = encryption?.mode || 'none';
+  if (!ENCRYPTION_MODES.includes(encryptionMode)) {
+    throw new RangeError(`Unknown encryption mode "${encryptionMode}"`);
+  }
+  if (encryptionMode === 'pgp' && !encryption.vendorId) {
+    throw new RangeError('A printer vendor is required for PGP encryption');
+  }
+
+  return {
+    format,
+    // Keep the canonical column order whatever order the keys came in
+    columns: [CODE_COLUMN, ...EXPORT_COLUMNS.filter(column => columnKeys.includes(column.key))],
+    statuses: statusFilter,
+    createdFrom: from,
+    createdTo: to,
+    encryption: {
+      mode: encryptionMode,
+      vendorId: encryptionMode === 'pgp' ? encryption.vendorId : null,
+    },
+  };
+}
@@ -0,0 +1,67 @@
+// functions/shared/codeGeneration.d.mts
+
+export declare const ALLOWED_CHARS: string;
+
+export declare function randomIndexes(max: number, count: number): number[];
+
+export declare function generateRandomString(length: number, alphabet?: string): string;
+
+export declare const CHECK_DIGIT_SEPARATOR: string;
+
+export declare const CHECK_DIGIT_VERSIONS: {
+  readonly LEGACY: 1;
+  readonly LUHN_MOD_32: 2;
+};
+
+export declare const CURRENT_CHECK_DIGIT_VERSION: 2;
+
+export declare function calculateCheckDigit(code: string, version?: number): string;
+
+export declare function buildCode(
+  prefix: string,
+  randomPart: string,
+  includeCheckDigit?: boolean,
+  checkDigitVersion?: number
+): string;
+
+export declare function validateCodeFormat(
+  code: string,
+  expectedPrefix?: string,
+  includeCheckDigit?: boolean,
+  checkDigitVersion?: number
+): { valid: boolean; message: string };
+
+export declare function getKeyspaceSize(codeLength: number, alphabet?: string): number;
+
+export interface KeyspaceCapacity {
+  keyspaceSize: number;
+  usedCount: number;
+  freeCount: number;
+  fillRatio: number;
+  collisionProbability: number;
+  guessOdds: number;
+}
+
+export declare function estimateKeyspaceCapacity(
+  codeLength: number,
+  usedCount: number,
+  quantity: number
+): KeyspaceCapacity;
+
+export declare const DEFAULT_MAX_COLLISION_PROBABILITY: number;
+
+export interface KeyspaceCapacityCheck extends KeyspaceCapacity {
+  maxCollisionProbability: number;
+  allowed: boolean;
+}
+
+export declare function checkKeyspaceCapacity(
+  codeLength: number,
+  usedCount: number,
+  quantity: number,
+  maxCollisionProbability: number
+): KeyspaceCapacityCheck;
+
+export declare const GENERATION_STALE_AFTER_MS: number;
+
+export declare function generateRunId(): string;
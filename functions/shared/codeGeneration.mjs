@@ -0,0 +1,334 @@
+// functions/shared/codeGeneration.mjs
+
+/**
+ * Code generation primitives shared by the admin app (browser) and the
+ * Cloud Functions (Node). Kept as a dependency-free ES module so Vite can
+ * bundle it directly and the functions can load it with a dynamic import().
+ */
+
+/**
+ * Allowed characters for code generation
+ * Removed I, O, 0, 1 to avoid confusion
+ */
+export const ALLOWED_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Get the Web Crypto implementation for the current runtime
+ * (window.crypto in the browser, globalThis.crypto in Node 20+)
+ * @returns {Crypto} Crypto implementation
+ */
+function getCrypto() {
+  const cryptoImpl = globalThis.crypto;
+  if (!cryptoImpl || typeof cryptoImpl.getRandomValues !== 'function') {
+    throw new Error('A cryptographically secure random source is not available');
+  }
+  return cryptoImpl;
+}
+
+// Most bytes getRandomValues fills in one call (larger requests throw a
+// QuotaExceededError)
+const MAX_RANDOM_BYTES = 65536;
+
+/**
+ * Pick uniformly distributed indexes in [0, max) from a CSPRNG.
+ * Random bytes at or above the largest multiple of max are rejected so
+ * that every index is equally likely (no modulo bias). Large counts are
+ * drawn in chunks of at most MAX_RANDOM_BYTES.
+ * @param {number} max Exclusive upper bound, between 1 and 256
+ * @param {number} count Number of indexes to draw
+ * @returns {number[]} Random indexes
+ */
+export function randomIndexes(max, count) {
+  if (!Number.isInteger(max) || max < 1 || max > 256) {
+    throw new RangeError('max must be an integer between 1 and 256');
+  }
+
+  const cryptoImpl = getCrypto();
+  const limit = 256 - (256 % max);
+  const indexes = [];
+  const buffer = new Uint8Array(Math.min(Math.max(count, 16), MAX_RANDOM_BYTES));
+
+  while (indexes.length < count) {
+    cryptoImpl.getRandomValues(buffer);
+    for (let i = 0; i < buffer.length && indexes.length < count; i++) {
+      if (buffer[i] < limit) {
+        indexes.push(buffer[i] % max);
+      }
+    }
+  }
+
+  return indexes;
+}
+
+/**
+ * Generate a random string for code generation
+ * @param {number} length Length of the random string
+ * @param {string} [alphabet] Characters to draw from
+ * @returns {string} Random string
+ */
+export function generateRandomString(length, alphabet = ALLOWED_CHARS) {
+  return randomIndexes(alphabet.length, length)
+    .map(index => alphabet.charAt(index))
+    .join('');
+}
+
+/**
+ * Separator placed between a code and its check digit
+ */
+export const CHECK_DIGIT_SEPARATOR = '-';
+
+/**
+ * Check digit algorithm versions, stored on each batch as checkDigitVersion.
+ * Batches without a version were generated with the legacy algorithm.
+ */
+export const CHECK_DIGIT_VERSIONS = {
+  // Sum of char codes mod 36 (misses adjacent transpositions)
+  LEGACY: 1,
+  // Luhn mod N over ALLOWED_CHARS, computed on the random part of the code
+  LUHN_MOD_32: 2,
+};
+
+/**
+ * Check digit version used for newly created batches
+ */
+export const CURRENT_CHECK_DIGIT_VERSION = CHECK_DIGIT_VERSIONS.LUHN_MOD_32;
+
+/**
+ * Legacy check digit: sum the char codes and take modulo 36
+ * @param {string} code The code without check digit
+ * @returns {string} The check digit (0-9, A-Z)
+ */
+function calculateLegacyCheckDigit(code) {
+  let sum = 0;
+  for (let i = 0; i < code.length; i++) {
+    sum += code.charCodeAt(i);
+  }
+
+  // Convert to a single alphanumeric character (0-9, A-Z)
+  const checkDigit = sum % 36;
+  if (checkDigit < 10) {
+    return checkDigit.toString();
+  }
+  // Convert 10-35 to A-Z
+  return String.fromCharCode(65 + (checkDigit - 10));
+}
+
+/**
+ * Luhn mod N check character over an alphabet. Detects every single
+ * character substitution and almost every adjacent transposition.
+ * @param {string} input Characters to protect, all from the alphabet
+ * @param {string} alphabet Alphabet whose size is N
+ * @returns {string} The check character (from the alphabet)
+ */
+function calculateLuhnModNCheckDigit(input, alphabet) {
+  const n = alphabet.length;
+  let factor = 2;
+  let sum = 0;
+
+  // Walk from right to left, doubling every other code point
+  for (let i = input.length - 1; i >= 0; i--) {
+    const codePoint = alphabet.indexOf(input.charAt(i));
+    if (codePoint === -1) {
+      throw new RangeError(`Character "${input.charAt(i)}" is not a valid code character`);
+    }
+
+    let addend = factor * codePoint;
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+
+  return alphabet.charAt((n - (sum % n)) % n);
+}
+
+/**
+ * Calculate a check digit for a code
+ * @param {string} code The code without check digit (prefix + random part)
+ * @param {number} [version] Check digit algorithm version
+ * @returns {string} The check digit
+ */
+export function calculateCheckDigit(code, version = CURRENT_CHECK_DIGIT_VERSION) {
+  switch (version) {
+    case CHECK_DIGIT_VERSIONS.LEGACY:
+      return calculateLegacyCheckDigit(code);
+    case CHECK_DIGIT_VERSIONS.LUHN_MOD_32: {
+      // Prefixes may use characters outside the alphabet, so only the
+      // random part (after the prefix's trailing dash) is protected
+      const randomPart = code.slice(code.lastIndexOf('-') + 1);
+      return calculateLuhnModNCheckDigit(randomPart, ALLOWED_CHARS);
+    }
+    default:
+      throw new RangeError(`Unknown check digit version: ${version}`);
+  }
+}
+
+/**
+ * Build a full code from its prefix and random part
+ * @param {string} prefix Code prefix
+ * @param {string} randomPart Random part of the code
+ * @param {boolean} [includeCheckDigit] Whether to append a check digit
+ * @param {number} [checkDigitVersion] Check digit algorithm version
+ * @returns {string} Full code, e.g. "IFL-ABC123" or "IFL-ABC123-7"
+ */
+export function buildCode(
+  prefix,
+  randomPart,
+  includeCheckDigit = false,
+  checkDigitVersion = CURRENT_CHECK_DIGIT_VERSION
+) {
+  const code = `${prefix}${randomPart}`;
+  if (!includeCheckDigit) {
+    return code;
+  }
+  return `${code}${CHECK_DIGIT_SEPARATOR}${calculateCheckDigit(code, checkDigitVersion)}`;
+}
+
+/**
+ * Validate a code's format
+ * @param {string} code The code to validate
+ * @param {string} [expectedPrefix] Prefix the code should have
+ * @param {boolean} [includeCheckDigit] Whether the code must carry a check digit (from the batch).
+ *   When omitted, a trailing single-character segment is treated as a check digit.
+ * @param {number} [checkDigitVersion] The batch's check digit algorithm. When omitted, the
+ *   current and legacy algorithms are both accepted.
+ * @returns {{valid: boolean, message: string}} Whether the code is valid and any error message
+ */
+export function validateCodeFormat(code, expectedPrefix, includeCheckDigit, checkDigitVersion) {
+  // Check if empty
+  if (!code) {
+    return { valid: false, message: 'Code cannot be empty' };
+  }
+
+  // Check prefix if specified
+  if (expectedPrefix && !code.startsWith(expectedPrefix)) {
+    return {
+      valid: false,
+      message: `Code must start with the prefix "${expectedPrefix}"`
+    };
+  }
+
+  // Check for valid characters
+  const validCharsRegex = /^[A-Z0-9-]+$/;
+  if (!validCharsRegex.test(code)) {
+    return {
+      valid: false,
+      message: 'Code can only contain uppercase letters, numbers, and hyphens'
+    };
+  }
+
+  // Check the check digit when the batch uses one (or when one looks present)
+  const separatorIndex = code.lastIndexOf(CHECK_DIGIT_SEPARATOR);
+  const hasCheckDigitSegment = separatorIndex > 0 && separatorIndex === code.length - 2;
+
+  if (includeCheckDigit && !hasCheckDigitSegment) {
+    return { valid: false, message: 'Code is missing its check digit' };
+  }
+
+  if (includeCheckDigit !== false && hasCheckDigitSegment) {
+    const codeWithoutCheckDigit = code.slice(0, separatorIndex);
+    const providedCheckDigit = code.slice(-1);
+    const versions = checkDigitVersion
+      ? [checkDigitVersion]
+      : [CURRENT_CHECK_DIGIT_VERSION, CHECK_DIGIT_VERSIONS.LEGACY];
+
+    const matches = versions.some(version => {
+      try {
+        return calculateCheckDigit(codeWithoutCheckDigit, version) === providedCheckDigit;
+      } catch {
+        // Characters outside the code alphabet can never match
+        return false;
+      }
+    });
+
+    if (!matches) {
+      return { valid: false, message: 'Invalid check digit' };
+    }
+  }
+
+  return { valid: true, message: 'Code is valid' };
+}
+
+/**
+ * Number of distinct random parts for a code length. The check digit is
+ * derived from the code, so it does not add to the keyspace.
+ * @param {number} codeLength Length of the random part
+ * @param {string} [alphabet] Characters codes are drawn from
+ * @returns {number} Keyspace size for one prefix
+ */
+export function getKeyspaceSize(codeLength, alphabet = ALLOWED_CHARS) {
+  return Math.pow(alphabet.length, codeLength);
+}
+
+/**
+ * Estimate how much of a prefix/length keyspace a new batch would use
+ * @param {number} codeLength Length of the random part
+ * @param {number} usedCount Codes already issued for the prefix and length
+ * @param {number} quantity Codes requested by the new batch
+ * @returns {{
+ *   keyspaceSize: number,
+ *   usedCount: number,
+ *   freeCount: number,
+ *   fillRatio: number,
+ *   collisionProbability: number,
+ *   guessOdds: number
+ * }} Capacity estimate. collisionProbability is the chance that a fresh
+ *   candidate collides once the batch is written; guessOdds is "1 in N" for
+ *   a random guess hitting a real code.
+ */
+export function estimateKeyspaceCapacity(codeLength, usedCount, quantity) {
+  const keyspaceSize = getKeyspaceSize(codeLength);
+  const freeCount = Math.max(keyspaceSize - usedCount, 0);
+  const issuedAfter = Math.min(usedCount + quantity, keyspaceSize);
+  const collisionProbability = issuedAfter / keyspaceSize;
+
+  return {
+    keyspaceSize,
+    usedCount,
+    freeCount,
+    fillRatio: usedCount / keyspaceSize,
+    collisionProbability,
+    guessOdds: issuedAfter > 0 ? Math.floor(keyspaceSize / issuedAfter) : Infinity,
+  };
+}
+
+/**
+ * Default for the largest collision probability a new batch may leave a
+ * prefix/length keyspace at; the Cloud Functions read the configured value
+ * from the MAX_COLLISION_PROBABILITY parameter
+ */
+export const DEFAULT_MAX_COLLISION_PROBABILITY = 0.01;
+
+/**
+ * Estimate a new batch's keyspace use and check it against the threshold
+ * @param {number} codeLength Length of the random part
+ * @param {number} usedCount Codes already issued for the prefix and length
+ * @param {number} quantity Codes requested by the new batch
+ * @param {number} maxCollisionProbability Largest collision probability allowed
+ * @returns {object} The estimateKeyspaceCapacity fields, the threshold and
+ *   whether the batch fits (allowed)
+ */
+export function checkKeyspaceCapacity(codeLength, usedCount, quantity, maxCollisionProbability) {
+  const estimate = estimateKeyspaceCapacity(codeLength, usedCount, quantity);
+
+  return {
+    ...estimate,
+    maxCollisionProbability,
+    allowed: quantity <= estimate.freeCount &&
+      estimate.collisionProbability <= maxCollisionProbability,
+  };
+}
+
+/**
+ * A generating batch whose last checkpoint is older than this is treated
+ * as stuck (its run timed out or the browser tab was closed) and may be
+ * resumed by another run.
+ */
+export const GENERATION_STALE_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * Generate an identifier for one generation run (used as the batch lease)
+ * @returns {string} Run ID
+ */
+export function generateRunId() {
+  return `run-${Date.now().toString(36)}-${generateRandomString(8)}`;
+}
@@ -0,0 +1,243 @@
+// functions/shared/codeGeneration.test.mjs
+
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+import {
+  ALLOWED_CHARS,
+  CHECK_DIGIT_VERSIONS,
+  buildCode,
+  calculateCheckDigit,
+  checkKeyspaceCapacity,
+  generateRandomString,
+  randomIndexes,
+  validateCodeFormat,
+} from './codeGeneration.mjs';
+
+/**
+ * Chi-square statistic of observed counts against a uniform distribution
+ * @param {number[]} counts Observed count per bucket
+ * @param {number} total Number of samples
+ * @returns {number} Chi-square statistic
+ */
+function chiSquare(counts, total) {
+  const expected = total / counts.length;
+  return counts.reduce((sum, count) => sum + ((count - expected) ** 2) / expected, 0);
+}
+
+/**
+ * Count how often each index in [0, max) was drawn
+ * @param {number[]} indexes Drawn indexes
+ * @param {number} max Exclusive upper bound
+ * @returns {number[]} Count per index
+ */
+function countIndexes(indexes, max) {
+  const counts = new Array(max).fill(0);
+  indexes.forEach(index => counts[index]++);
+  return counts;
+}
+
+describe('ALLOWED_CHARS', () => {
+  test('has 32 unique characters without the confusable I, O, 0 and 1', () => {
+    expect(ALLOWED_CHARS).toHaveLength(32);
+    expect(new Set(ALLOWED_CHARS).size).toBe(32);
+    expect(ALLOWED_CHARS).not.toMatch(/[IO01]/);
+  });
+});
+
+describe('generateRandomString', () => {
+  test('returns strings of the requested length', () => {
+    expect(generateRandomString(0)).toBe('');
+    expect(generateRandomString(8)).toHaveLength(8);
+  });
+
+  test('only uses characters from the alphabet', () => {
+    const sample = generateRandomString(100000);
+
+    expect(sample).toHaveLength(100000);
+    expect([...sample].every(char => ALLOWED_CHARS.includes(char))).toBe(true);
+    // Every character shows up in a sample this large
+    expect(new Set(sample).size).toBe(ALLOWED_CHARS.length);
+  });
+
+  test('draws from a custom alphabet', () => {
+    expect(generateRandomString(1000, 'AB')).toMatch(/^[AB]{1000}$/);
+  });
+});
+
+describe('randomIndexes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Critical chi-square values at p = 0.001: a correct generator fails
+  // these checks once in a thousand runs
+  test.each([
+    [32, 61.1],
+    [36, 66.6],
+  ])('is uniform over [0, %i)', (max, critical) => {
+    const total = max * 10000;
+    const counts = countIndexes(randomIndexes(max, total), max);
+
+    expect(counts.every(count => count > 0)).toBe(true);
+    expect(chiSquare(counts, total)).toBeLessThan(critical);
+  });
+
+  test('rejects bytes at or above the largest multiple of max', () => {
+    // For max 36 the largest multiple below 256 is 252, so 252-255 are
+    // rejected instead of wrapping around to 0-3
+    const bytes = [252, 253, 254, 255, 251, 0, 35, 36, 255, 71];
+    jest.spyOn(globalThis.crypto, 'getRandomValues').mockImplementation(buffer => {
+      buffer.fill(255);
+      buffer.set(bytes.slice(0, buffer.length));
+      return buffer;
+    });
+
+    expect(randomIndexes(36, 5)).toEqual([251 % 36, 0, 35, 0, 71 % 36]);
+  });
+
+  test('keeps drawing when a whole buffer is rejected', () => {
+    const getRandomValues = jest.spyOn(globalThis.crypto, 'getRandomValues')
+      .mockImplementationOnce(buffer => buffer.fill(255))
+      .mockImplementationOnce(buffer => buffer.fill(7));
+
+    expect(randomIndexes(36, 3)).toEqual([7, 7, 7]);
+    expect(getRandomValues).toHaveBeenCalledTimes(2);
+  });
+
+  test('draws more than getRandomValues fills in one call', () => {
+    const getRandomValues = jest.spyOn(globalThis.crypto, 'getRandomValues');
+    const indexes = randomIndexes(32, 100000);
+
+    expect(indexes).toHaveLength(100000);
+    expect(indexes.every(index => index >= 0 && index < 32)).toBe(true);
+    getRandomValues.mock.calls.forEach(([buffer]) => {
+      expect(buffer.length).toBeLessThanOrEqual(65536);
+    });
+  });
+
+  test('rejects bounds outside 1-256', () => {
+    expect(() => randomIndexes(0, 1)).toThrow(RangeError);
+    expect(() => randomIndexes(257, 1)).toThrow(RangeError);
+    expect(() => randomIndexes(1.5, 1)).toThrow(RangeError);
+    expect(randomIndexes(1, 3)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('calculateCheckDigit', () => {
+  test('legacy: sum of char codes modulo 36', () => {
+    // 'A' is 65; 65 % 36 = 29 → 'T'
+    expect(calculateCheckDigit('A', CHECK_DIGIT_VERSIONS.LEGACY)).toBe('T');
+    // 'AB' is 131; 131 % 36 = 23 → 'N'
+    expect(calculateCheckDigit('AB', CHECK_DIGIT_VERSIONS.LEGACY)).toBe('N');
+    // '(' is 40; 40 % 36 = 4 → '4'
+    expect(calculateCheckDigit('(', CHECK_DIGIT_VERSIONS.LEGACY)).toBe('4');
+  });
+
+  test('Luhn mod 32: protects only the random part after the prefix', () => {
+    const checkDigit = calculateCheckDigit('IFL-ABC234', CHECK_DIGIT_VERSIONS.LUHN_MOD_32);
+
+    expect(ALLOWED_CHARS).toContain(checkDigit);
+    expect(calculateCheckDigit('OTHER-ABC234', CHECK_DIGIT_VERSIONS.LUHN_MOD_32)).toBe(checkDigit);
+  });
+
+  test('Luhn mod 32: detects every single character substitution', () => {
+    const randomPart = 'K7WMQ2XP';
+    const checkDigit = calculateCheckDigit(randomPart, CHECK_DIGIT_VERSIONS.LUHN_MOD_32);
+
+    for (let i = 0; i < randomPart.length; i++) {
+      for (const char of ALLOWED_CHARS) {
+        if (char === randomPart[i]) continue;
+        const changed = randomPart.slice(0, i) + char + randomPart.slice(i + 1);
+        expect(calculateCheckDigit(changed, CHECK_DIGIT_VERSIONS.LUHN_MOD_32)).not.toBe(checkDigit);
+      }
+    }
+  });
+
+  test('Luhn mod 32: detects adjacent transpositions', () => {
+    const randomPart = 'AB3CD4';
+    const checkDigit = calculateCheckDigit(randomPart, CHECK_DIGIT_VERSIONS.LUHN_MOD_32);
+
+    for (let i = 0; i < randomPart.length - 1; i++) {
+      const swapped = randomPart.slice(0, i) + randomPart[i + 1] + randomPart[i] + randomPart.slice(i + 2);
+      expect(calculateCheckDigit(swapped, CHECK_DIGIT_VERSIONS.LUHN_MOD_32)).not.toBe(checkDigit);
+    }
+  });
+
+  test('Luhn mod 32: rejects characters outside the alphabet', () => {
+    expect(() => calculateCheckDigit('ABC0', CHECK_DIGIT_VERSIONS.LUHN_MOD_32)).toThrow(RangeError);
+  });
+
+  test('rejects unknown versions', () => {
+    expect(() => calculateCheckDigit('ABC', 99)).toThrow(RangeError);
+  });
+});
+
+describe('validateCodeFormat', () => {
+  test.each([
+    ['legacy', CHECK_DIGIT_VERSIONS.LEGACY],
+    ['Luhn mod 32', CHECK_DIGIT_VERSIONS.LUHN_MOD_32],
+  ])('accepts %s codes built with their check digit', (_name, version) => {
+    const code = buildCode('IFL-', 'ABC234', true, version);
+
+    expect(validateCodeFormat(code, 'IFL-', true, version).valid).toBe(true);
+    // Without the batch's version both algorithms are accepted
+    expect(validateCodeFormat(code).valid).toBe(true);
+  });
+
+  test.each([
+    ['legacy', CHECK_DIGIT_VERSIONS.LEGACY],
+    ['Luhn mod 32', CHECK_DIGIT_VERSIONS.LUHN_MOD_32],
+  ])('rejects %s codes with a wrong check digit', (_name, version) => {
+    const code = buildCode('IFL-', 'ABC234', true, version);
+    const wrongDigit = ALLOWED_CHARS.split('').find(char => char !== code.slice(-1));
+
+    expect(validateCodeFormat(code.slice(0, -1) + wrongDigit, 'IFL-', true, version)).toEqual({
+      valid: false,
+      message: 'Invalid check digit',
+    });
+  });
+
+  test('checks the check digit against the batch version only', () => {
+    const legacyCode = buildCode('IFL-', 'ABC234', true, CHECK_DIGIT_VERSIONS.LEGACY);
+    const luhnCode = buildCode('IFL-', 'ABC234', true, CHECK_DIGIT_VERSIONS.LUHN_MOD_32);
+    expect(legacyCode).not.toBe(luhnCode);
+
+    expect(validateCodeFormat(legacyCode, 'IFL-', true, CHECK_DIGIT_VERSIONS.LUHN_MOD_32).valid).toBe(false);
+    expect(validateCodeFormat(luhnCode, 'IFL-', true, CHECK_DIGIT_VERSIONS.LEGACY).valid).toBe(false);
+  });
+
+  test('requires the check digit when the batch uses one', () => {
+    expect(validateCodeFormat('IFL-ABC234', 'IFL-', true)).toEqual({
+      valid: false,
+      message: 'Code is missing its check digit',
+    });
+    expect(validateCodeFormat('IFL-ABC234', 'IFL-', false).valid).toBe(true);
+  });
+
+  test('rejects empty codes, wrong prefixes and invalid characters', () => {
+    expect(validateCodeFormat('').valid).toBe(false);
+    expect(validateCodeFormat('ABC-ABC234', 'IFL-').message).toBe('Code must start with the prefix "IFL-"');
+    expect(validateCodeFormat('IFL-abc234').valid).toBe(false);
+  });
+});
+
+describe('checkKeyspaceCapacity', () => {
+  // 2-character codes: 32² = 1024 possible codes
+  test('allows batches that stay within the threshold', () => {
+    expect(checkKeyspaceCapacity(2, 0, 10, 0.01)).toMatchObject({
+      keyspaceSize: 1024,
+      freeCount: 1024,
+      collisionProbability: 10 / 1024,
+      maxCollisionProbability: 0.01,
+      allowed: true,
+    });
+  });
+
+  test('refuses batches that push the collision probability over the threshold', () => {
+    expect(checkKeyspaceCapacity(2, 5, 10, 0.01).allowed).toBe(false);
+    expect(checkKeyspaceCapacity(2, 5, 10, 0.02).allowed).toBe(true);
+  });
+
+  test('refuses batches larger than the free keyspace', () => {
+    expect(checkKeyspaceCapacity(2, 1000, 25, 1)).toMatchObject({ freeCount: 24, allowed: false });
+  });
+});
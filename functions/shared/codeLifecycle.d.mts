@@ -0,0 +1,75 @@
+// functions/shared/codeLifecycle.d.mts
+
+export type CodeStatus =
+  | 'available'
+  | 'printed'
+  | 'shipped'
+  | 'assigned'
+  | 'activated'
+  | 'lost-reported'
+  | 'disabled'
+  | 'retired';
+
+export interface CodeTransitionRule {
+  requiresAssignee?: boolean;
+  requiresReason?: boolean;
+}
+
+export declare const CODE_STATUSES: CodeStatus[];
+
+export declare const ASSIGNED_CODE_STATUSES: CodeStatus[];
+
+export declare const UNASSIGNED_CODE_STATUSES: CodeStatus[];
+
+export declare const CODE_STATUS_LABELS: Record<CodeStatus, string>;
+
+export declare const CODE_STATUS_TRANSITIONS: Record<
+  CodeStatus,
+  Partial<Record<CodeStatus, CodeTransitionRule>>
+>;
+
+export declare function getAllowedTransitions(status: CodeStatus): CodeStatus[];
+
+export declare function getTransitionRequirements(
+  code: { status: CodeStatus; assignedTo?: string },
+  toStatus: CodeStatus
+): { assignee: boolean; reason: boolean };
+
+export declare function validateCodeTransition(
+  code: { status: CodeStatus; assignedTo?: string },
+  toStatus: CodeStatus,
+  details?: { assignedTo?: string; reason?: string }
+): { valid: boolean; message: string };
+
+export declare function getReenabledStatus(code: {
+  disabledFromStatus?: CodeStatus;
+  assignedTo?: string;
+}): CodeStatus;
+
+export declare const TRANSFERABLE_CODE_STATUSES: CodeStatus[];
+
+export declare function validateCodeTransfer(
+  code: { status: CodeStatus; assignedTo?: string },
+  toUserId: string
+): { valid: boolean; message: string };
+
+export interface CodeHistoryEventData {
+  fromStatus: CodeStatus;
+  toStatus: CodeStatus;
+  fromAssignedTo: string | null;
+  toAssignedTo: string | null;
+  reason: string | null;
+  changedBy: string | null;
+}
+
+export declare function getNextAssignee(
+  code: { assignedTo?: string },
+  toStatus: CodeStatus,
+  assignedTo?: string
+): string | null;
+
+export declare function buildCodeHistoryEvent(
+  code: { status: CodeStatus; assignedTo?: string },
+  toStatus: CodeStatus,
+  details?: { assignedTo?: string; reason?: string; uid?: string }
+): CodeHistoryEventData;
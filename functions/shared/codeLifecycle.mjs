@@ -0,0 +1,244 @@
+// functions/shared/codeLifecycle.mjs
+
+/**
+ * Code lifecycle shared by the admin app (CodeGenerationService) and the
+ * Cloud Functions (codeOperations.js): the code statuses and the table of
+ * allowed status transitions both enforce.
+ *
+ *   available → printed → shipped → assigned → activated
+ *   assigned / activated → lost-reported → activated (found)
+ *   most statuses → disabled → back to the status it was disabled from
+ *   any status but retired → retired (final)
+ */
+
+export const CODE_STATUSES = [
+  'available',
+  'printed',
+  'shipped',
+  'assigned',
+  'activated',
+  'lost-reported',
+  'disabled',
+  'retired',
+];
+
+/**
+ * Statuses of codes held by a user; their assignment is kept
+ */
+export const ASSIGNED_CODE_STATUSES = ['assigned', 'activated', 'lost-reported'];
+
+/**
+ * Statuses of codes not held by anyone; moving to one drops the assignment
+ */
+export const UNASSIGNED_CODE_STATUSES = ['available', 'printed', 'shipped'];
+
+export const CODE_STATUS_LABELS = {
+  available: 'Available',
+  printed: 'Printed',
+  shipped: 'Shipped',
+  assigned: 'Assigned',
+  activated: 'Activated',
+  'lost-reported': 'Lost Reported',
+  disabled: 'Disabled',
+  retired: 'Retired',
+};
+
+// Transition rules: a user ID is needed to assign, a reason to take a code
+// away from its user or to retire it
+const ASSIGN = { requiresAssignee: true };
+const WITH_REASON = { requiresReason: true };
+const PLAIN = {};
+
+/**
+ * Allowed transitions: status → { next status → rule }. A code can stay
+ * 'assigned' only by moving to another user (reassignment).
+ */
+export const CODE_STATUS_TRANSITIONS = {
+  available: { printed: PLAIN, assigned: ASSIGN, disabled: PLAIN, retired: WITH_REASON },
+  printed: { shipped: PLAIN, assigned: ASSIGN, available: WITH_REASON, disabled: PLAIN, retired: WITH_REASON },
+  shipped: { assigned: ASSIGN, available: WITH_REASON, disabled: PLAIN, retired: WITH_REASON },
+  assigned: {
+    assigned: ASSIGN,
+    activated: PLAIN,
+    'lost-reported': PLAIN,
+    available: WITH_REASON,
+    disabled: PLAIN,
+    retired: WITH_REASON,
+  },
+  activated: {
+    assigned: ASSIGN,
+    'lost-reported': PLAIN,
+    available: WITH_REASON,
+    disabled: PLAIN,
+    retired: WITH_REASON,
+  },
+  'lost-reported': {
+    activated: PLAIN,
+    available: WITH_REASON,
+    disabled: PLAIN,
+    retired: WITH_REASON,
+  },
+  disabled: {
+    available: PLAIN,
+    printed: PLAIN,
+    shipped: PLAIN,
+    assigned: PLAIN,
+    activated: PLAIN,
+    'lost-reported': PLAIN,
+    retired: WITH_REASON,
+  },
+  retired: {},
+};
+
+/**
+ * Statuses a code can move to from its current status
+ * @param {string} status Current status
+ * @returns {string[]} Allowed next statuses
+ */
+export function getAllowedTransitions(status) {
+  return Object.keys(CODE_STATUS_TRANSITIONS[status] || {});
+}
+
+/**
+ * What a status change needs besides being in the table: a user ID when
+ * the code ends up held by a user without one (or is reassigned), a reason
+ * when the rule asks for one or the code is taken away from its user, also
+ * when it goes through disabled first
+ * @param {{status: string, assignedTo?: string}} code Current code data
+ * @param {string} toStatus Requested status
+ * @returns {{assignee: boolean, reason: boolean}} Whether each is required
+ */
+export function getTransitionRequirements(code, toStatus) {
+  const rule = CODE_STATUS_TRANSITIONS[code.status]?.[toStatus] || PLAIN;
+  return {
+    assignee: Boolean(rule.requiresAssignee) ||
+      (ASSIGNED_CODE_STATUSES.includes(toStatus) && !code.assignedTo),
+    reason: Boolean(rule.requiresReason) ||
+      (Boolean(code.assignedTo) && UNASSIGNED_CODE_STATUSES.includes(toStatus)),
+  };
+}
+
+/**
+ * Check a status change against the transition table
+ * @param {{status: string, assignedTo?: string}} code Current code data
+ * @param {string} toStatus Requested status
+ * @param {{assignedTo?: string, reason?: string}} [details] Assignee and reason given
+ * @returns {{valid: boolean, message: string}} Whether the change is allowed and why not
+ */
+export function validateCodeTransition(code, toStatus, details = {}) {
+  if (!CODE_STATUSES.includes(toStatus)) {
+    return { valid: false, message: `Unknown code status "${toStatus}"` };
+  }
+
+  const rule = CODE_STATUS_TRANSITIONS[code.status]?.[toStatus];
+  if (!rule) {
+    return {
+      valid: false,
+      message: code.status === toStatus
+        ? `Code is already ${toStatus}`
+        : `Code cannot go from ${code.status} to ${toStatus}`
+    };
+  }
+
+  const requirements = getTransitionRequirements(code, toStatus);
+  if (requirements.assignee && !details.assignedTo) {
+    return { valid: false, message: 'A user ID is required to assign a code' };
+  }
+  if (code.status === toStatus && details.assignedTo === code.assignedTo) {
+    return { valid: false, message: 'Code is already assigned to this user' };
+  }
+  if (requirements.reason && !details.reason?.trim()) {
+    let message = `A reason is required to return a ${code.status} code to ${toStatus}`;
+    if (toStatus === 'retired') {
+      message = 'A reason is required to retire a code';
+    } else if (code.assignedTo) {
+      message = 'A reason is required to unassign a code';
+    }
+    return { valid: false, message };
+  }
+
+  return { valid: true, message: 'Transition allowed' };
+}
+
+/**
+ * Status a disabled code returns to when re-enabled: the status it was
+ * disabled from (codes disabled before that was recorded go back to
+ * assigned or available)
+ * @param {{disabledFromStatus?: string, assignedTo?: string}} code Disabled code data
+ * @returns {string} Status to re-enable to
+ */
+export function getReenabledStatus(code) {
+  if (code.disabledFromStatus && code.disabledFromStatus !== 'disabled') {
+    return code.disabledFromStatus;
+  }
+  return code.assignedTo ? 'assigned' : 'available';
+}
+
+/**
+ * User a code is held by after a status change: the new assignee when one
+ * is given, nobody for unassigned statuses, otherwise the current one
+ * @param {{assignedTo?: string}} code Current code data
+ * @param {string} toStatus New status
+ * @param {string} [assignedTo] Assignee given with the change
+ * @returns {string|null} User ID, or null
+ */
+export function getNextAssignee(code, toStatus, assignedTo) {
+  if (assignedTo && ASSIGNED_CODE_STATUSES.includes(toStatus)) {
+    return assignedTo;
+  }
+  if (UNASSIGNED_CODE_STATUSES.includes(toStatus)) {
+    return null;
+  }
+  return code.assignedTo || null;
+}
+
+/**
+ * Statuses of codes that can move to another user; the status is kept.
+ * Disabled codes are re-enabled first, lost codes found or released first.
+ */
+export const TRANSFERABLE_CODE_STATUSES = ['assigned', 'activated'];
+
+/**
+ * Check moving a code to another user
+ * @param {{status: string, assignedTo?: string}} code Current code data
+ * @param {string} toUserId User to move the code to
+ * @returns {{valid: boolean, message: string}} Whether the transfer is allowed and why not
+ */
+export function validateCodeTransfer(code, toUserId) {
+  if (!code.assignedTo) {
+    return { valid: false, message: 'Only assigned codes can be transferred' };
+  }
+  if (code.status === 'disabled') {
+    return { valid: false, message: 'Disabled codes must be re-enabled before they are transferred' };
+  }
+  if (code.status === 'lost-reported') {
+    return { valid: false, message: 'Lost codes must be found or released before they are transferred' };
+  }
+  if (!TRANSFERABLE_CODE_STATUSES.includes(code.status)) {
+    return { valid: false, message: `${code.status} codes cannot be transferred` };
+  }
+  if (code.assignedTo === toUserId) {
+    return { valid: false, message: 'Code is already assigned to this user' };
+  }
+
+  return { valid: true, message: 'Transfer allowed' };
+}
+
+/**
+ * Event appended to a code's history subcollection for a status change;
+ * the writer adds the timestamp (changedAt)
+ * @param {{status: string, assignedTo?: string}} code Code data before the change
+ * @param {string} toStatus New status
+ * @param {{assignedTo?: string, reason?: string, uid?: string}} details Assignee, reason and acting user
+ * @returns {object} History event fields
+ */
+export function buildCodeHistoryEvent(code, toStatus, details = {}) {
+  return {
+    fromStatus: code.status,
+    toStatus,
+    fromAssignedTo: code.assignedTo || null,
+    toAssignedTo: getNextAssignee(code, toStatus, details.assignedTo),
+    reason: details.reason?.trim() || null,
+    changedBy: details.uid || null,
+  };
+}
@@ -0,0 +1,266 @@
+// functions/shared/codeLifecycle.test.mjs
+
+import { describe, expect, test } from '@jest/globals';
+import {
+  ASSIGNED_CODE_STATUSES,
+  CODE_STATUSES,
+  CODE_STATUS_LABELS,
+  CODE_STATUS_TRANSITIONS,
+  TRANSFERABLE_CODE_STATUSES,
+  UNASSIGNED_CODE_STATUSES,
+  buildCodeHistoryEvent,
+  getAllowedTransitions,
+  getNextAssignee,
+  getReenabledStatus,
+  getTransitionRequirements,
+  validateCodeTransfer,
+  validateCodeTransition,
+} from './codeLifecycle.mjs';
+
+/**
+ * Code data for a status, held by a user when the status is a held one
+ * @param {string} status Code status
+ * @returns {{status: string, assignedTo?: string}} Code data
+ */
+function codeWithStatus(status) {
+  return ASSIGNED_CODE_STATUSES.includes(status) ? { status, assignedTo: 'user-1' } : { status };
+}
+
+/**
+ * Details that satisfy every requirement of a transition
+ * @param {{status: string, assignedTo?: string}} code Current code data
+ * @param {string} toStatus Requested status
+ * @returns {{assignedTo?: string, reason?: string}} Details
+ */
+function completeDetails(code, toStatus) {
+  const requirements = getTransitionRequirements(code, toStatus);
+  return {
+    ...(requirements.assignee ? { assignedTo: 'user-2' } : {}),
+    ...(requirements.reason ? { reason: 'Test' } : {}),
+  };
+}
+
+describe('status lists', () => {
+  test('every status has a label and a row in the transition table', () => {
+    expect(Object.keys(CODE_STATUS_LABELS).sort()).toEqual([...CODE_STATUSES].sort());
+    expect(Object.keys(CODE_STATUS_TRANSITIONS).sort()).toEqual([...CODE_STATUSES].sort());
+  });
+
+  test('transitions only lead to known statuses', () => {
+    Object.values(CODE_STATUS_TRANSITIONS).forEach(transitions => {
+      Object.keys(transitions).forEach(status => expect(CODE_STATUSES).toContain(status));
+    });
+  });
+
+  test('held and unheld statuses do not overlap', () => {
+    expect(ASSIGNED_CODE_STATUSES.filter(status => UNASSIGNED_CODE_STATUSES.includes(status))).toEqual([]);
+  });
+});
+
+describe('getAllowedTransitions', () => {
+  test('follows the lifecycle forward', () => {
+    expect(getAllowedTransitions('available')).toEqual(['printed', 'assigned', 'disabled', 'retired']);
+    expect(getAllowedTransitions('printed')).toContain('shipped');
+    expect(getAllowedTransitions('assigned')).toContain('activated');
+  });
+
+  test('retired is final', () => {
+    expect(getAllowedTransitions('retired')).toEqual([]);
+  });
+
+  test('returns nothing for unknown statuses', () => {
+    expect(getAllowedTransitions('unknown')).toEqual([]);
+  });
+});
+
+describe('validateCodeTransition', () => {
+  const allowed = CODE_STATUSES.flatMap(from =>
+    getAllowedTransitions(from).map(to => [from, to]));
+  const forbidden = CODE_STATUSES.flatMap(from =>
+    CODE_STATUSES.filter(to => !getAllowedTransitions(from).includes(to)).map(to => [from, to]));
+
+  test.each(allowed)('allows %s → %s with the required details', (from, to) => {
+    const code = codeWithStatus(from);
+    expect(validateCodeTransition(code, to, completeDetails(code, to))).toEqual({
+      valid: true,
+      message: 'Transition allowed',
+    });
+  });
+
+  test.each(forbidden)('refuses %s → %s', (from, to) => {
+    const code = codeWithStatus(from);
+    const result = validateCodeTransition(code, to, { assignedTo: 'user-2', reason: 'Test' });
+
+    expect(result.valid).toBe(false);
+    expect(result.message).toBe(from === to
+      ? `Code is already ${to}`
+      : `Code cannot go from ${from} to ${to}`);
+  });
+
+  test('refuses unknown statuses', () => {
+    expect(validateCodeTransition({ status: 'available' }, 'lost')).toEqual({
+      valid: false,
+      message: 'Unknown code status "lost"',
+    });
+  });
+
+  test('requires a user ID to assign', () => {
+    expect(validateCodeTransition({ status: 'shipped' }, 'assigned')).toEqual({
+      valid: false,
+      message: 'A user ID is required to assign a code',
+    });
+    expect(validateCodeTransition({ status: 'shipped' }, 'assigned', { assignedTo: 'user-1' }).valid).toBe(true);
+  });
+
+  test('requires a user ID to re-enable a disabled code to a held status without an owner', () => {
+    expect(validateCodeTransition({ status: 'disabled' }, 'activated').valid).toBe(false);
+    expect(validateCodeTransition({ status: 'disabled', assignedTo: 'user-1' }, 'activated').valid).toBe(true);
+  });
+
+  test('refuses reassigning a code to its current owner', () => {
+    expect(validateCodeTransition({ status: 'assigned', assignedTo: 'user-1' }, 'assigned', {
+      assignedTo: 'user-1',
+    })).toEqual({ valid: false, message: 'Code is already assigned to this user' });
+  });
+
+  test('requires a reason to retire', () => {
+    expect(validateCodeTransition({ status: 'available' }, 'retired')).toEqual({
+      valid: false,
+      message: 'A reason is required to retire a code',
+    });
+    expect(validateCodeTransition({ status: 'available' }, 'retired', { reason: '  ' }).valid).toBe(false);
+  });
+
+  test('requires a reason to unassign', () => {
+    expect(validateCodeTransition({ status: 'activated', assignedTo: 'user-1' }, 'available')).toEqual({
+      valid: false,
+      message: 'A reason is required to unassign a code',
+    });
+  });
+
+  test('requires a reason to unassign through disabled', () => {
+    expect(validateCodeTransition({ status: 'disabled', assignedTo: 'user-1' }, 'available').valid).toBe(false);
+    expect(validateCodeTransition({ status: 'disabled', assignedTo: 'user-1' }, 'available', {
+      reason: 'Sold',
+    }).valid).toBe(true);
+  });
+
+  test('requires a reason to move a code back in the lifecycle', () => {
+    expect(validateCodeTransition({ status: 'shipped' }, 'available')).toEqual({
+      valid: false,
+      message: 'A reason is required to return a shipped code to available',
+    });
+  });
+});
+
+describe('getTransitionRequirements', () => {
+  test('plain forward steps need nothing', () => {
+    expect(getTransitionRequirements({ status: 'available' }, 'printed')).toEqual({ assignee: false, reason: false });
+    expect(getTransitionRequirements({ status: 'assigned', assignedTo: 'user-1' }, 'activated'))
+      .toEqual({ assignee: false, reason: false });
+  });
+
+  test('assigning needs a user ID', () => {
+    expect(getTransitionRequirements({ status: 'printed' }, 'assigned')).toEqual({ assignee: true, reason: false });
+    // Reassignment too, even though the code has an owner
+    expect(getTransitionRequirements({ status: 'activated', assignedTo: 'user-1' }, 'assigned'))
+      .toEqual({ assignee: true, reason: false });
+  });
+
+  test('taking a code from its owner needs a reason', () => {
+    expect(getTransitionRequirements({ status: 'lost-reported', assignedTo: 'user-1' }, 'available'))
+      .toEqual({ assignee: false, reason: true });
+  });
+
+  test('disabling needs nothing, retiring needs a reason', () => {
+    expect(getTransitionRequirements({ status: 'shipped' }, 'disabled')).toEqual({ assignee: false, reason: false });
+    expect(getTransitionRequirements({ status: 'shipped' }, 'retired')).toEqual({ assignee: false, reason: true });
+  });
+});
+
+describe('getReenabledStatus', () => {
+  test('returns the status the code was disabled from', () => {
+    expect(getReenabledStatus({ disabledFromStatus: 'shipped' })).toBe('shipped');
+    expect(getReenabledStatus({ disabledFromStatus: 'activated', assignedTo: 'user-1' })).toBe('activated');
+  });
+
+  test('falls back to assigned or available for codes disabled before that was recorded', () => {
+    expect(getReenabledStatus({ assignedTo: 'user-1' })).toBe('assigned');
+    expect(getReenabledStatus({})).toBe('available');
+    expect(getReenabledStatus({ disabledFromStatus: 'disabled' })).toBe('available');
+  });
+});
+
+describe('getNextAssignee', () => {
+  test('a new assignee wins for held statuses', () => {
+    expect(getNextAssignee({ assignedTo: 'user-1' }, 'assigned', 'user-2')).toBe('user-2');
+  });
+
+  test('unheld statuses drop the owner', () => {
+    expect(getNextAssignee({ assignedTo: 'user-1' }, 'available')).toBeNull();
+    expect(getNextAssignee({ assignedTo: 'user-1' }, 'printed', 'user-2')).toBeNull();
+  });
+
+  test('other statuses keep the current owner', () => {
+    expect(getNextAssignee({ assignedTo: 'user-1' }, 'disabled', 'user-2')).toBe('user-1');
+    expect(getNextAssignee({ assignedTo: 'user-1' }, 'lost-reported')).toBe('user-1');
+    expect(getNextAssignee({}, 'retired')).toBeNull();
+  });
+});
+
+describe('buildCodeHistoryEvent', () => {
+  test('records the status and owner before and after', () => {
+    expect(buildCodeHistoryEvent({ status: 'activated', assignedTo: 'user-1' }, 'available', {
+      reason: ' Sold ',
+      uid: 'admin-1',
+    })).toEqual({
+      fromStatus: 'activated',
+      toStatus: 'available',
+      fromAssignedTo: 'user-1',
+      toAssignedTo: null,
+      reason: 'Sold',
+      changedBy: 'admin-1',
+    });
+  });
+});
+
+describe('validateCodeTransfer', () => {
+  test.each(TRANSFERABLE_CODE_STATUSES)('allows moving %s codes to another user', (status) => {
+    expect(validateCodeTransfer({ status, assignedTo: 'user-1' }, 'user-2')).toEqual({
+      valid: true,
+      message: 'Transfer allowed',
+    });
+  });
+
+  test('refuses disabled codes, even with an owner', () => {
+    expect(validateCodeTransfer({ status: 'disabled', assignedTo: 'user-1' }, 'user-2')).toEqual({
+      valid: false,
+      message: 'Disabled codes must be re-enabled before they are transferred',
+    });
+  });
+
+  test('refuses lost codes', () => {
+    expect(validateCodeTransfer({ status: 'lost-reported', assignedTo: 'user-1' }, 'user-2')).toEqual({
+      valid: false,
+      message: 'Lost codes must be found or released before they are transferred',
+    });
+  });
+
+  test('refuses codes without an owner', () => {
+    expect(validateCodeTransfer({ status: 'available' }, 'user-2')).toEqual({
+      valid: false,
+      message: 'Only assigned codes can be transferred',
+    });
+  });
+
+  test('refuses retired codes that kept an owner', () => {
+    expect(validateCodeTransfer({ status: 'retired', assignedTo: 'user-1' }, 'user-2').valid).toBe(false);
+  });
+
+  test('refuses moving a code to its current owner', () => {
+    expect(validateCodeTransfer({ status: 'activated', assignedTo: 'user-1' }, 'user-1')).toEqual({
+      valid: false,
+      message: 'Code is already assigned to this user',
+    });
+  });
+});
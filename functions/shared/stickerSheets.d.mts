@@ -0,0 +1,59 @@
+// functions/shared/stickerSheets.d.mts
+
+export declare function mmToPoints(value: number): number;
+
+export declare function pointsToMm(value: number): number;
+
+export interface SheetTemplate {
+  label: string;
+  pageWidth: number;
+  pageHeight: number;
+  stickerSize: number;
+  gap: number;
+  minMargin: number;
+}
+
+export declare const SHEET_TEMPLATES: Record<string, SheetTemplate>;
+
+export declare const DEFAULT_SHEET_TEMPLATE: string;
+
+export declare const STICKER_SHEET_LIMITS: {
+  MIN_STICKER_SIZE_MM: number;
+  MAX_STICKER_SIZE_MM: number;
+  MAX_BLEED_MM: number;
+  CROP_MARK_LENGTH_MM: number;
+  CROP_MARK_OFFSET_MM: number;
+};
+
+export interface StickerSheetOptions {
+  template?: string;
+  stickerSizeMm?: number | null;
+  bleedMm?: number;
+  cropMarks?: boolean;
+  showCode?: boolean;
+}
+
+export interface StickerSheetLayout {
+  template: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  perSheet: number;
+  stickerSize: number;
+  bleed: number;
+  gap: number;
+  offsetX: number;
+  offsetY: number;
+  cropMarks: boolean;
+  cropMarkLength: number;
+  cropMarkOffset: number;
+  showCode: boolean;
+}
+
+export declare function computeSheetLayout(options?: StickerSheetOptions): StickerSheetLayout;
+
+export declare function getStickerPosition(
+  layout: StickerSheetLayout,
+  index: number
+): { page: number; x: number; y: number };
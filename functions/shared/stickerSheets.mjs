@@ -0,0 +1,205 @@
+// functions/shared/stickerSheets.mjs
+
+/**
+ * Sticker sheet layouts shared by the admin app (export dialog preview) and
+ * the Cloud Functions (PDF renderer). All lengths are in PDF points
+ * (1/72 inch) unless the name says otherwise.
+ */
+
+const POINTS_PER_INCH = 72;
+const POINTS_PER_MM = POINTS_PER_INCH / 25.4;
+
+/**
+ * Convert millimetres to points
+ * @param {number} value Length in millimetres
+ * @returns {number} Length in points
+ */
+export function mmToPoints(value) {
+  return value * POINTS_PER_MM;
+}
+
+/**
+ * Convert points to millimetres
+ * @param {number} value Length in points
+ * @returns {number} Length in millimetres
+ */
+export function pointsToMm(value) {
+  return value / POINTS_PER_MM;
+}
+
+const inches = (value) => value * POINTS_PER_INCH;
+
+/**
+ * Label sheet templates (Avery-style grids of square stickers).
+ * Columns and rows are derived from the sticker size, gap and minimum
+ * margin, so a custom sticker size re-flows the grid on the same paper.
+ */
+export const SHEET_TEMPLATES = {
+  'letter-2in': {
+    label: 'US Letter – 2" stickers (3 × 4)',
+    pageWidth: inches(8.5),
+    pageHeight: inches(11),
+    stickerSize: inches(2),
+    gap: inches(0.5),
+    minMargin: inches(0.5),
+  },
+  'letter-1.5in': {
+    label: 'US Letter – 1.5" stickers (4 × 6)',
+    pageWidth: inches(8.5),
+    pageHeight: inches(11),
+    stickerSize: inches(1.5),
+    gap: inches(0.125),
+    minMargin: inches(0.5),
+  },
+  'letter-1in': {
+    label: 'US Letter – 1" stickers (6 × 8)',
+    pageWidth: inches(8.5),
+    pageHeight: inches(11),
+    stickerSize: inches(1),
+    gap: inches(0.25),
+    minMargin: inches(0.5),
+  },
+  'a4-40mm': {
+    label: 'A4 – 40 mm stickers (4 × 6)',
+    pageWidth: mmToPoints(210),
+    pageHeight: mmToPoints(297),
+    stickerSize: mmToPoints(40),
+    gap: mmToPoints(8),
+    minMargin: mmToPoints(8),
+  },
+  'a4-25mm': {
+    label: 'A4 – 25 mm stickers (6 × 9)',
+    pageWidth: mmToPoints(210),
+    pageHeight: mmToPoints(297),
+    stickerSize: mmToPoints(25),
+    gap: mmToPoints(6),
+    minMargin: mmToPoints(8),
+  },
+};
+
+export const DEFAULT_SHEET_TEMPLATE = 'letter-2in';
+
+/**
+ * Limits for user supplied sheet options
+ */
+export const STICKER_SHEET_LIMITS = {
+  MIN_STICKER_SIZE_MM: 15, // Smaller QR codes stop scanning reliably
+  MAX_STICKER_SIZE_MM: 100,
+  MAX_BLEED_MM: 5,
+  CROP_MARK_LENGTH_MM: 3,
+  CROP_MARK_OFFSET_MM: 1, // Gap between the bleed edge and a crop mark
+};
+
+/**
+ * Number of stickers fitting along one side of the page
+ * @param {number} available Page length minus both minimum margins
+ * @param {number} pitch Sticker size plus gutter
+ * @param {number} stickerSize Sticker size
+ * @returns {number} Sticker count
+ */
+function fitCount(available, pitch, stickerSize) {
+  if (available < stickerSize) {
+    return 0;
+  }
+  return Math.floor((available - stickerSize) / pitch) + 1;
+}
+
+/**
+ * Resolve sticker sheet options into a page layout
+ * @param {object} [options] Sheet options
+ * @param {string} [options.template] Key of SHEET_TEMPLATES
+ * @param {number} [options.stickerSizeMm] Sticker (cut) size, defaults to the template's
+ * @param {number} [options.bleedMm] Artwork extending past the cut line
+ * @param {boolean} [options.cropMarks] Draw crop marks at every sticker corner
+ * @param {boolean} [options.showCode] Print the human-readable code under the QR
+ * @returns {object} Layout with page size, grid and sticker geometry
+ * @throws {RangeError} When an option is invalid or no sticker fits the page
+ */
+export function computeSheetLayout(options = {}) {
+  const {
+    template = DEFAULT_SHEET_TEMPLATE,
+    stickerSizeMm,
+    bleedMm = 0,
+    cropMarks = false,
+    showCode = true,
+  } = options;
+
+  const sheet = SHEET_TEMPLATES[template];
+  if (!sheet) {
+    throw new RangeError(`Unknown sheet template "${template}"`);
+  }
+
+  if (stickerSizeMm !== undefined && stickerSizeMm !== null && (
+    !Number.isFinite(stickerSizeMm) ||
+    stickerSizeMm < STICKER_SHEET_LIMITS.MIN_STICKER_SIZE_MM ||
+    stickerSizeMm > STICKER_SHEET_LIMITS.MAX_STICKER_SIZE_MM
+  )) {
+    throw new RangeError(
+      `Sticker size must be between ${STICKER_SHEET_LIMITS.MIN_STICKER_SIZE_MM} and ` +
+      `${STICKER_SHEET_LIMITS.MAX_STICKER_SIZE_MM} mm`
+    );
+  }
+
+  if (!Number.isFinite(bleedMm) || bleedMm < 0 || bleedMm > STICKER_SHEET_LIMITS.MAX_BLEED_MM) {
+    throw new RangeError(`Bleed must be between 0 and ${STICKER_SHEET_LIMITS.MAX_BLEED_MM} mm`);
+  }
+
+  const stickerSize = stickerSizeMm ? mmToPoints(stickerSizeMm) : sheet.stickerSize;
+  const bleed = mmToPoints(bleedMm);
+  const cropMarkLength = cropMarks ? mmToPoints(STICKER_SHEET_LIMITS.CROP_MARK_LENGTH_MM) : 0;
+  const cropMarkOffset = cropMarks ? mmToPoints(STICKER_SHEET_LIMITS.CROP_MARK_OFFSET_MM) : 0;
+
+  // Neighbouring stickers must not print into each other's bleed or crop marks
+  const reserved = bleed + cropMarkOffset + cropMarkLength;
+  const gap = Math.max(sheet.gap, 2 * reserved);
+  const margin = Math.max(sheet.minMargin, reserved);
+  const pitch = stickerSize + gap;
+
+  const columns = fitCount(sheet.pageWidth - 2 * margin, pitch, stickerSize);
+  const rows = fitCount(sheet.pageHeight - 2 * margin, pitch, stickerSize);
+
+  if (columns < 1 || rows < 1) {
+    throw new RangeError('No sticker of this size fits on the selected sheet');
+  }
+
+  // Center the grid on the page
+  const gridWidth = columns * stickerSize + (columns - 1) * gap;
+  const gridHeight = rows * stickerSize + (rows - 1) * gap;
+
+  return {
+    template,
+    pageWidth: sheet.pageWidth,
+    pageHeight: sheet.pageHeight,
+    columns,
+    rows,
+    perSheet: columns * rows,
+    stickerSize,
+    bleed,
+    gap,
+    offsetX: (sheet.pageWidth - gridWidth) / 2,
+    offsetY: (sheet.pageHeight - gridHeight) / 2,
+    cropMarks: Boolean(cropMarks),
+    cropMarkLength,
+    cropMarkOffset,
+    showCode: Boolean(showCode),
+  };
+}
+
+/**
+ * Position of a sticker's cut box on its sheet
+ * @param {object} layout Layout from computeSheetLayout
+ * @param {number} index Sticker index across the whole export
+ * @returns {{page: number, x: number, y: number}} Zero-based page and top-left corner
+ */
+export function getStickerPosition(layout, index) {
+  const page = Math.floor(index / layout.perSheet);
+  const slot = index % layout.perSheet;
+  const column = slot % layout.columns;
+  const row = Math.floor(slot / layout.columns);
+
+  return {
+    page,
+    x: layout.offsetX + column * (layout.stickerSize + layout.gap),
+    y: layout.offsetY + row * (layout.stickerSize + layout.gap),
+  };
+}
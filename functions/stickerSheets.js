@@ -0,0 +1,186 @@
+// functions/stickerSheets.js
+
+const { once } = require('events');
+const PDFDocument = require('pdfkit');
+const QRCode = require('qrcode');
+const { defineString } = require('firebase-functions/params');
+
+// Sticker sheet layouts (shared with the admin app)
+const stickerSheetsModule = import('./shared/stickerSheets.mjs');
+
+/**
+ * Base URL the sticker QR codes point to; the code is appended as the last
+ * path segment (e.g. https://scan.example.com/IFL-ABC123)
+ */
+const scannerBaseUrl = defineString('SCANNER_BASE_URL', {
+  description: 'Scanner app URL encoded in sticker QR codes (the code is appended as a path segment)',
+});
+
+const STICKER_STYLE = {
+  PADDING_RATIO: 0.06, // Space between the cut line and the QR quiet zone
+  CODE_FONT: 'Courier-Bold',
+  CODE_FONT_RATIO: 0.075, // Code text height relative to the sticker size
+  MIN_CODE_FONT_SIZE: 4,
+  CROP_MARK_WIDTH: 0.25,
+};
+
+/**
+ * Scanner URL encoded in a code's QR
+ * @param {string} code Sticker code
+ * @returns {string} Scanner URL
+ */
+function getScannerUrl(code) {
+  const baseUrl = scannerBaseUrl.value().replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error('SCANNER_BASE_URL is not configured');
+  }
+  return `${baseUrl}/${encodeURIComponent(code)}`;
+}
+
+/**
+ * Draw a QR code as vector modules
+ * @param {PDFKit.PDFDocument} doc PDF document
+ * @param {string} text QR content
+ * @param {number} x Left edge
+ * @param {number} y Top edge
+ * @param {number} size Side length, excluding the quiet zone
+ */
+function drawQrCode(doc, text, x, y, size) {
+  const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleCount = qr.modules.size;
+  const moduleSize = size / moduleCount;
+
+  for (let row = 0; row < moduleCount; row++) {
+    for (let column = 0; column < moduleCount; column++) {
+      if (qr.modules.get(row, column)) {
+        doc.rect(x + column * moduleSize, y + row * moduleSize, moduleSize, moduleSize);
+      }
+    }
+  }
+  doc.fill('#000000');
+}
+
+/**
+ * Draw crop marks just outside a sticker's bleed box
+ * @param {PDFKit.PDFDocument} doc PDF document
+ * @param {object} layout Sheet layout
+ * @param {number} x Cut box left edge
+ * @param {number} y Cut box top edge
+ */
+function drawCropMarks(doc, layout, x, y) {
+  const start = layout.bleed + layout.cropMarkOffset;
+  const end = start + layout.cropMarkLength;
+  const size = layout.stickerSize;
+
+  [x, x + size].forEach((edgeX, i) => {
+    const outward = i === 0 ? -1 : 1;
+    [y, y + size].forEach((edgeY, j) => {
+      const outwardY = j === 0 ? -1 : 1;
+      // Horizontal mark in line with the horizontal cut, vertical mark with the vertical cut
+      doc.moveTo(edgeX + outward * start, edgeY).lineTo(edgeX + outward * end, edgeY);
+      doc.moveTo(edgeX, edgeY + outwardY * start).lineTo(edgeX, edgeY + outwardY * end);
+    });
+  });
+  doc.lineWidth(STICKER_STYLE.CROP_MARK_WIDTH).stroke('#000000');
+}
+
+/**
+ * Draw one sticker: QR code plus the human-readable code under it
+ * @param {PDFKit.PDFDocument} doc PDF document
+ * @param {object} layout Sheet layout
+ * @param {string} code Sticker code
+ * @param {number} x Cut box left edge
+ * @param {number} y Cut box top edge
+ */
+function drawSticker(doc, layout, code, x, y) {
+  const size = layout.stickerSize;
+  const padding = size * STICKER_STYLE.PADDING_RATIO;
+  let fontSize = 0;
+
+  if (layout.showCode) {
+    // Shrink long codes until they fit the sticker width
+    fontSize = Math.max(size * STICKER_STYLE.CODE_FONT_RATIO, STICKER_STYLE.MIN_CODE_FONT_SIZE);
+    doc.font(STICKER_STYLE.CODE_FONT).fontSize(fontSize);
+    const maxWidth = size - 2 * padding;
+    const width = doc.widthOfString(code);
+    if (width > maxWidth) {
+      fontSize = Math.max(fontSize * maxWidth / width, STICKER_STYLE.MIN_CODE_FONT_SIZE);
+      doc.fontSize(fontSize);
+    }
+  }
+
+  const textHeight = layout.showCode ? fontSize * 1.3 : 0;
+  const qrSize = size - 2 * padding - textHeight;
+  const qrX = x + (size - qrSize) / 2;
+  const qrY = y + padding;
+
+  drawQrCode(doc, getScannerUrl(code), qrX, qrY, qrSize);
+
+  if (layout.showCode) {
+    doc.fillColor('#000000').text(code, x, qrY + qrSize + fontSize * 0.2, {
+      width: size,
+      align: 'center',
+      lineBreak: false,
+    });
+  }
+}
+
+/**
+ * Resolve and validate sticker sheet options
+ * @param {object} options Sheet options (see computeSheetLayout)
+ * @returns {Promise<object>} Sheet layout
+ * @throws {RangeError} When an option is invalid
+ */
+async function resolveSheetLayout(options) {
+  const { computeSheetLayout } = await stickerSheetsModule;
+  return computeSheetLayout(options);
+}
+
+/**
+ * Stream codes onto printable sticker sheets. PDFKit flushes each finished
+ * page to the output; a new page is only started once the output has taken
+ * the earlier ones, so only about a page is held in memory.
+ * @param {import('stream').Writable} output Output stream (ended when done)
+ * @param {AsyncIterable<string>} codes Codes to print, in sheet order
+ * @param {object} layout Sheet layout from resolveSheetLayout
+ * @returns {Promise<number>} Rendered page count
+ */
+async function renderStickerSheetPdf(output, codes, layout) {
+  const { getStickerPosition } = await stickerSheetsModule;
+
+  const doc = new PDFDocument({
+    size: [layout.pageWidth, layout.pageHeight],
+    margin: 0,
+    autoFirstPage: false,
+    info: { Title: 'Sticker sheet', Creator: 'If Found Lost Admin' },
+  });
+  doc.pipe(output);
+
+  let pageCount = 0;
+  let index = 0;
+  for await (const code of codes) {
+    const { page, x, y } = getStickerPosition(layout, index++);
+    if (page === pageCount) {
+      // Backpressure: pipe() pauses PDFKit but does not stop us drawing
+      if (output.writableNeedDrain) {
+        await once(output, 'drain');
+      }
+      doc.addPage({ size: [layout.pageWidth, layout.pageHeight], margin: 0 });
+      pageCount++;
+    }
+
+    drawSticker(doc, layout, code, x, y);
+    if (layout.cropMarks) {
+      drawCropMarks(doc, layout, x, y);
+    }
+  }
+
+  doc.end();
+  return pageCount;
+}
+
+module.exports = {
+  getScannerUrl,
+  resolveSheetLayout,
+  renderStickerSheetPdf,
+};
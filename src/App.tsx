@@ -2,12 +2,14 @@
 
 import React from 'react';
 import AppRoutes from './routes';
+import AppHeader from './components/AppHeader';
 import { AuthProvider } from './contexts/AuthContext';
 
 const App: React.FC = () => (
   <AuthProvider>
+    <AppHeader />
     <AppRoutes />
   </AuthProvider>
 );
 
-export default App;
\ No newline at end of file
+export default App;
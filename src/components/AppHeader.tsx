@@ -0,0 +1,40 @@
+// src/components/AppHeader.tsx
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AppBar, Box, Toolbar, Typography } from '@mui/material';
+import { QrCode2 as QrCodeIcon } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import CodeSearch from './CodeSearch';
+
+/**
+ * App bar with the code search, shown once signed in
+ */
+const AppHeader: React.FC = () => {
+  const { user } = useAuth();
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <AppBar position="static" elevation={1}>
+      <Toolbar sx={{ gap: 2 }}>
+        <QrCodeIcon />
+        <Typography
+          variant="h6"
+          component={Link}
+          to="/"
+          sx={{ color: 'inherit', textDecoration: 'none', flexGrow: 1 }}
+        >
+          IfFoundLost Admin
+        </Typography>
+        <Box>
+          <CodeSearch />
+        </Box>
+      </Toolbar>
+    </AppBar>
+  );
+};
+
+export default AppHeader;
@@ -15,11 +15,15 @@ import {
   Slider,
   Divider,
   Chip,
+  FormControlLabel,
+  Switch,
+  LinearProgress,
 } from '@mui/material';
 import Grid from '@mui/material/Grid';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { CodeGenerationService } from '../services/CodeGenerationService';
+import type { KeyspaceCapacityEstimate } from '../services/CodeGenerationService';
 import { sanitizePrefix } from '../utils/codeValidationUtils';
 import CodePreviewComponent from './CodePreviewComponent';
 
@@ -27,7 +31,7 @@ import CodePreviewComponent from './CodePreviewComponent';
 const MIN_CODE_LENGTH = 4;
 const MAX_CODE_LENGTH = 10;
 const MIN_QUANTITY = 10;
-const MAX_QUANTITY = 10000;
+const MAX_QUANTITY = 500000;
 const DEFAULT_CODE_LENGTH = 6;
 const DEFAULT_PREFIX = 'IFL-';
 
@@ -42,12 +46,16 @@ const BatchCreationForm: React.FC = () => {
   const [codeLength, setCodeLength] = useState(DEFAULT_CODE_LENGTH);
   const [quantity, setQuantity] = useState(100);
   const [productType, setProductType] = useState('');
+  const [includeCheckDigit, setIncludeCheckDigit] = useState(false);
   
   // Form validation state
   const [nameError, setNameError] = useState('');
   const [prefixError, setPrefixError] = useState('');
   const [quantityError, setQuantityError] = useState('');
   
+  // Keyspace capacity for the current prefix/length/quantity
+  const [capacity, setCapacity] = useState<KeyspaceCapacityEstimate | null>(null);
+  
   // Submission state
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -61,6 +69,28 @@ const BatchCreationForm: React.FC = () => {
     }
   }, [prefix]);
   
+  // Refresh keyspace capacity when the code configuration changes
+  useEffect(() => {
+    if (!prefix || quantity < 1) {
+      setCapacity(null);
+      return;
+    }
+    
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      CodeGenerationService.getKeyspaceCapacity(prefix, codeLength, quantity)
+        .then(result => {
+          if (!cancelled) setCapacity(result);
+        })
+        .catch(err => console.error('Error estimating keyspace capacity:', err));
+    }, 400);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [prefix, codeLength, quantity]);
+  
   // Validate form fields
   const validateForm = (): boolean => {
     let isValid = true;
@@ -91,6 +121,9 @@ const BatchCreationForm: React.FC = () => {
     } else if (quantity > MAX_QUANTITY) {
       setQuantityError(`Maximum quantity is ${MAX_QUANTITY}`);
       isValid = false;
+    } else if (capacity && !capacity.allowed) {
+      setQuantityError('Too many codes for this prefix and code length');
+      isValid = false;
     } else {
       setQuantityError('');
     }
@@ -119,11 +152,12 @@ const BatchCreationForm: React.FC = () => {
         prefix,
         codeLength,
         quantity,
+        includeCheckDigit,
         productType: productType || undefined,
         createdBy: user?.uid || '',
       });
       
-      setSuccess(`Batch created successfully! Generation in progress.`);
+      setSuccess(`Batch created successfully! Generation has been queued.`);
       
       // Navigate to batch details page after a short delay
       setTimeout(() => {
@@ -259,6 +293,52 @@ const BatchCreationForm: React.FC = () => {
             </Typography>
           </Grid>
           
+          {/* Keyspace capacity */}
+          {capacity && (
+            <Grid size={{xs:12}}>
+              <Typography variant="subtitle2" gutterBottom>
+                Keyspace for {prefix} with {codeLength} characters
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={Math.min(capacity.fillRatio * 100, 100)}
+                color={capacity.allowed ? 'primary' : 'error'}
+                sx={{ height: 8, borderRadius: 4 }}
+              />
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                {capacity.usedCount.toLocaleString()} used · {capacity.freeCount.toLocaleString()} free
+                of {capacity.keyspaceSize.toLocaleString()} possible codes.
+                After this batch, a random guess has a 1 in {capacity.guessOdds.toLocaleString()} chance
+                of hitting a real code.
+              </Typography>
+              {!capacity.allowed && (
+                <Alert severity="error" sx={{ mt: 1 }}>
+                  This batch would raise the collision probability to{' '}
+                  {(capacity.collisionProbability * 100).toFixed(2)}% (limit{' '}
+                  {(capacity.maxCollisionProbability * 100).toFixed(2)}%).
+                  Use a longer code length or a different prefix.
+                </Alert>
+              )}
+            </Grid>
+          )}
+          
+          {/* Check Digit */}
+          <Grid size={{xs:12}}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={includeCheckDigit}
+                  onChange={(e) => setIncludeCheckDigit(e.target.checked)}
+                  disabled={loading}
+                />
+              }
+              label="Include check digit"
+            />
+            <Typography variant="caption" color="text.secondary" display="block">
+              Appends a check character (e.g. "-7") so mistyped codes are rejected before lookup.
+            </Typography>
+          </Grid>
+          
           {/* Code Preview */}
           <Grid size={{xs:12}}>
             <Box sx={{ mt: 2, mb: 3 }}>
@@ -268,16 +348,17 @@ const BatchCreationForm: React.FC = () => {
               <CodePreviewComponent 
                 prefix={prefix} 
                 codeLength={codeLength} 
+                includeCheckDigit={includeCheckDigit}
               />
             </Box>
           </Grid>
           
           {/* Warning for large batches */}
-          {quantity > 500 && (
+          {quantity > 10000 && (
             <Grid size={{xs:12}}>
               <Alert severity="info">
-                You're generating a large batch ({quantity} codes). 
-                This operation will be processed in the background and may take some time.
+                You're generating a large batch ({quantity.toLocaleString()} codes). 
+                It is generated in the background in several runs and may take a while.
               </Alert>
             </Grid>
           )}
@@ -290,7 +371,7 @@ const BatchCreationForm: React.FC = () => {
               color="primary"
               size="large"
               fullWidth
-              disabled={loading}
+              disabled={loading || (capacity !== null && !capacity.allowed)}
             >
               {loading ? 'Creating Batch...' : 'Generate Codes'}
             </Button>
@@ -302,6 +383,7 @@ const BatchCreationForm: React.FC = () => {
               <Chip label={`${prefix}... format`} />
               <Chip label={`${codeLength} characters`} />
               <Chip label={`${quantity} codes`} />
+              {includeCheckDigit && <Chip label="Check digit" />}
               {productType && <Chip label={`Type: ${productType}`} />}
             </Box>
           </Grid>
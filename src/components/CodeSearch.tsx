@@ -0,0 +1,125 @@
+// src/components/CodeSearch.tsx
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  CircularProgress,
+  InputAdornment,
+  TextField,
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { CodeGenerationService } from '../services/CodeGenerationService';
+import type { StickerCodeWithId } from '../types/DatabaseTypes';
+
+// Wait this long after typing stops before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Suggestions shown while typing
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Code search across all batches: suggests codes starting with the input
+ * and opens the code page for a picked suggestion or an exact code
+ */
+const CodeSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+  const [options, setOptions] = useState<StickerCodeWithId[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  // Search by prefix once typing pauses
+  useEffect(() => {
+    const term = input.trim();
+    if (!term) {
+      setOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const codes = await CodeGenerationService.searchCodes(term, MAX_SUGGESTIONS);
+      if (!cancelled) {
+        setOptions(codes);
+        setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input]);
+
+  const openCode = (code: string) => {
+    const normalized = code.trim().toUpperCase();
+    if (!normalized) return;
+
+    setInput('');
+    setOptions([]);
+    navigate(`/codes/${encodeURIComponent(normalized)}`);
+  };
+
+  return (
+    <Autocomplete<StickerCodeWithId, false, false, true>
+      freeSolo
+      size="small"
+      sx={{ width: { xs: 200, sm: 320 } }}
+      options={options}
+      filterOptions={(codes) => codes}
+      getOptionLabel={(option) => typeof option === 'string' ? option : option.id}
+      inputValue={input}
+      onInputChange={(_, value, reason) => {
+        if (reason !== 'reset') {
+          setInput(value);
+        }
+      }}
+      value={null}
+      onChange={(_, value) => {
+        // A picked suggestion, or Enter on typed text (exact code)
+        if (value) {
+          openCode(typeof value === 'string' ? value : value.id);
+        }
+      }}
+      loading={searching}
+      noOptionsText="No matching codes"
+      renderOption={(props, option) => {
+        const { key, ...optionProps } = props;
+        return (
+          <Box component="li" key={key} {...optionProps} sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+            <Box component="span" sx={{ fontFamily: 'monospace' }}>{option.id}</Box>
+            <Chip label={option.status} size="small" variant="outlined" />
+          </Box>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          placeholder="Search codes"
+          sx={{ bgcolor: 'background.paper', borderRadius: 1 }}
+          slotProps={{
+            input: {
+              ...params.InputProps,
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+              endAdornment: (
+                <>
+                  {searching && <CircularProgress size={16} />}
+                  {params.InputProps.endAdornment}
+                </>
+              ),
+            },
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default CodeSearch;
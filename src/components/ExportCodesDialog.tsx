@@ -0,0 +1,186 @@
+// src/components/ExportCodesDialog.tsx
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import {
+  CODE_STATUSES,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+} from '../../functions/shared/codeExports.mjs';
+import type {
+  ExportCodeStatus,
+  ExportColumnKey,
+  ExportEncryptionOptions,
+  ExportOptionsInput,
+} from '../../functions/shared/codeExports.mjs';
+import { CODE_STATUS_LABELS } from '../utils/codeStatusUtils';
+import ExportEncryptionFields from './ExportEncryptionFields';
+
+interface ExportCodesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onExport: (options: ExportOptionsInput) => void;
+}
+
+const FORMAT_LABELS = {
+  csv: 'CSV (.csv)',
+  excel: 'Excel (.xlsx)',
+  json: 'JSON (.json)',
+};
+
+type DataExportFormat = keyof typeof FORMAT_LABELS;
+
+/**
+ * Toggle a value in a list
+ */
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+}
+
+/**
+ * Dialog for choosing the format, columns and filters of a code export
+ */
+const ExportCodesDialog: React.FC<ExportCodesDialogProps> = ({
+  open,
+  onClose,
+  onExport,
+}) => {
+  const [format, setFormat] = useState<DataExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumnKey[]>(DEFAULT_EXPORT_COLUMNS);
+  const [statuses, setStatuses] = useState<ExportCodeStatus[]>(CODE_STATUSES);
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [encryption, setEncryption] = useState<ExportEncryptionOptions>({ mode: 'none' });
+
+  const dateRangeInvalid = Boolean(createdFrom && createdTo && createdFrom > createdTo);
+  const vendorMissing = encryption.mode === 'pgp' && !encryption.vendorId;
+
+  const handleExport = () => {
+    onExport({
+      format,
+      columns,
+      statuses,
+      // Whole days in the user's time zone
+      createdFrom: createdFrom ? new Date(`${createdFrom}T00:00:00`).toISOString() : null,
+      createdTo: createdTo ? new Date(`${createdTo}T23:59:59.999`).toISOString() : null,
+      encryption,
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Export Codes</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+          <FormControl fullWidth>
+            <InputLabel id="export-format-label">Format</InputLabel>
+            <Select
+              labelId="export-format-label"
+              value={format}
+              label="Format"
+              onChange={(e) => setFormat(e.target.value as DataExportFormat)}
+            >
+              {Object.entries(FORMAT_LABELS).map(([key, label]) => (
+                <MenuItem key={key} value={key}>{label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl component="fieldset">
+            <FormLabel component="legend">Columns (the code is always included)</FormLabel>
+            <FormGroup row>
+              {EXPORT_COLUMNS.map(column => (
+                <FormControlLabel
+                  key={column.key}
+                  control={
+                    <Checkbox
+                      checked={columns.includes(column.key as ExportColumnKey)}
+                      onChange={() => setColumns(toggle(columns, column.key as ExportColumnKey))}
+                    />
+                  }
+                  label={column.label}
+                />
+              ))}
+            </FormGroup>
+          </FormControl>
+
+          <FormControl component="fieldset" error={statuses.length === 0}>
+            <FormLabel component="legend">Statuses</FormLabel>
+            <FormGroup row>
+              {CODE_STATUSES.map(status => (
+                <FormControlLabel
+                  key={status}
+                  control={
+                    <Checkbox
+                      checked={statuses.includes(status)}
+                      onChange={() => setStatuses(toggle(statuses, status))}
+                    />
+                  }
+                  label={CODE_STATUS_LABELS[status]}
+                />
+              ))}
+            </FormGroup>
+          </FormControl>
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Created From"
+              type="date"
+              value={createdFrom}
+              onChange={(e) => setCreatedFrom(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+              fullWidth
+            />
+            <TextField
+              label="Created To"
+              type="date"
+              value={createdTo}
+              onChange={(e) => setCreatedTo(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+              error={dateRangeInvalid}
+              fullWidth
+            />
+          </Box>
+
+          <ExportEncryptionFields value={encryption} onChange={setEncryption} />
+
+          {statuses.length === 0 && (
+            <Alert severity="error">Select at least one status</Alert>
+          )}
+          {dateRangeInvalid && (
+            <Alert severity="error">The start date must be before the end date</Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={statuses.length === 0 || dateRangeInvalid || vendorMissing}
+        >
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportCodesDialog;
@@ -0,0 +1,98 @@
+// src/components/ExportEncryptionFields.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  Link as MuiLink,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import { PrinterVendorService } from '../services/PrinterVendorService';
+import type { PrinterVendorWithId } from '../types/DatabaseTypes';
+import type {
+  ExportEncryptionMode,
+  ExportEncryptionOptions,
+} from '../../functions/shared/codeExports.mjs';
+
+interface ExportEncryptionFieldsProps {
+  value: ExportEncryptionOptions;
+  onChange: (value: ExportEncryptionOptions) => void;
+}
+
+const MODE_LABELS: Record<ExportEncryptionMode, string> = {
+  none: 'None',
+  zip: 'Password-protected ZIP',
+  pgp: 'PGP (printer vendor key)',
+};
+
+/**
+ * Encryption choice shared by the export dialogs
+ */
+const ExportEncryptionFields: React.FC<ExportEncryptionFieldsProps> = ({
+  value,
+  onChange,
+}) => {
+  const [vendors, setVendors] = useState<PrinterVendorWithId[]>([]);
+  const [vendorsError, setVendorsError] = useState<string | null>(null);
+
+  // Load the vendors once PGP is picked
+  useEffect(() => {
+    if (value.mode !== 'pgp') return;
+
+    PrinterVendorService.getVendors()
+      .then(setVendors)
+      .catch(err => setVendorsError(err instanceof Error ? err.message : 'Failed to load printer vendors'));
+  }, [value.mode]);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <FormControl fullWidth>
+        <InputLabel id="export-encryption-label">Encryption</InputLabel>
+        <Select
+          labelId="export-encryption-label"
+          value={value.mode}
+          label="Encryption"
+          onChange={(e) => onChange({ mode: e.target.value as ExportEncryptionMode })}
+        >
+          {Object.entries(MODE_LABELS).map(([mode, label]) => (
+            <MenuItem key={mode} value={mode}>{label}</MenuItem>
+          ))}
+        </Select>
+        {value.mode === 'zip' && (
+          <FormHelperText>
+            The password is shown once after the export. Send it separately from the file.
+          </FormHelperText>
+        )}
+      </FormControl>
+
+      {value.mode === 'pgp' && (
+        <FormControl fullWidth error={!value.vendorId}>
+          <InputLabel id="export-vendor-label">Printer Vendor</InputLabel>
+          <Select
+            labelId="export-vendor-label"
+            value={value.vendorId || ''}
+            label="Printer Vendor"
+            onChange={(e) => onChange({ mode: 'pgp', vendorId: e.target.value })}
+          >
+            {vendors.map(vendor => (
+              <MenuItem key={vendor.id} value={vendor.id}>{vendor.name}</MenuItem>
+            ))}
+          </Select>
+          <FormHelperText>
+            Only the vendor can decrypt the file.{' '}
+            <MuiLink component={Link} to="/codes/printer-vendors">Manage vendors</MuiLink>
+          </FormHelperText>
+        </FormControl>
+      )}
+
+      {vendorsError && <Alert severity="error">{vendorsError}</Alert>}
+    </Box>
+  );
+};
+
+export default ExportEncryptionFields;
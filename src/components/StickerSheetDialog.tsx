@@ -0,0 +1,153 @@
+// src/components/StickerSheetDialog.tsx
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography,
+  Alert,
+} from '@mui/material';
+import {
+  computeSheetLayout,
+  DEFAULT_SHEET_TEMPLATE,
+  pointsToMm,
+  SHEET_TEMPLATES,
+  STICKER_SHEET_LIMITS,
+} from '../../functions/shared/stickerSheets.mjs';
+import type { StickerSheetOptions } from '../../functions/shared/stickerSheets.mjs';
+import type { ExportEncryptionOptions } from '../../functions/shared/codeExports.mjs';
+import ExportEncryptionFields from './ExportEncryptionFields';
+
+interface StickerSheetDialogProps {
+  open: boolean;
+  codeCount: number;
+  onClose: () => void;
+  onExport: (options: StickerSheetOptions, encryption: ExportEncryptionOptions) => void;
+}
+
+/**
+ * Dialog for choosing the label sheet layout of a PDF sticker export
+ */
+const StickerSheetDialog: React.FC<StickerSheetDialogProps> = ({
+  open,
+  codeCount,
+  onClose,
+  onExport,
+}) => {
+  const [template, setTemplate] = useState(DEFAULT_SHEET_TEMPLATE);
+  const [stickerSize, setStickerSize] = useState('');
+  const [bleed, setBleed] = useState('0');
+  const [cropMarks, setCropMarks] = useState(false);
+  const [showCode, setShowCode] = useState(true);
+  const [encryption, setEncryption] = useState<ExportEncryptionOptions>({ mode: 'none' });
+
+  const vendorMissing = encryption.mode === 'pgp' && !encryption.vendorId;
+
+  const options: StickerSheetOptions = {
+    template,
+    stickerSizeMm: stickerSize ? Number(stickerSize) : null,
+    bleedMm: Number(bleed) || 0,
+    cropMarks,
+    showCode,
+  };
+
+  // Validate the layout the same way the export function will
+  let layout: ReturnType<typeof computeSheetLayout> | null = null;
+  let layoutError: string | null = null;
+  try {
+    layout = computeSheetLayout(options);
+  } catch (err) {
+    layoutError = err instanceof Error ? err.message : 'Invalid layout';
+  }
+
+  const defaultSizeMm = Math.round(pointsToMm(SHEET_TEMPLATES[template].stickerSize));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Download Sticker Sheets (PDF)</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <FormControl fullWidth>
+            <InputLabel id="sheet-template-label">Sheet Template</InputLabel>
+            <Select
+              labelId="sheet-template-label"
+              value={template}
+              label="Sheet Template"
+              onChange={(e) => setTemplate(e.target.value)}
+            >
+              {Object.entries(SHEET_TEMPLATES).map(([key, sheet]) => (
+                <MenuItem key={key} value={key}>{sheet.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label="Sticker Size (mm)"
+            type="number"
+            value={stickerSize}
+            onChange={(e) => setStickerSize(e.target.value)}
+            placeholder={`${defaultSizeMm}`}
+            helperText={`Leave empty for the template size (${defaultSizeMm} mm). ` +
+              `${STICKER_SHEET_LIMITS.MIN_STICKER_SIZE_MM}–${STICKER_SHEET_LIMITS.MAX_STICKER_SIZE_MM} mm.`}
+            fullWidth
+          />
+
+          <TextField
+            label="Bleed (mm)"
+            type="number"
+            value={bleed}
+            onChange={(e) => setBleed(e.target.value)}
+            helperText={`Space kept clear around each cut line (0–${STICKER_SHEET_LIMITS.MAX_BLEED_MM} mm)`}
+            fullWidth
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <FormControlLabel
+              control={<Switch checked={cropMarks} onChange={(e) => setCropMarks(e.target.checked)} />}
+              label="Crop marks"
+            />
+            <FormControlLabel
+              control={<Switch checked={showCode} onChange={(e) => setShowCode(e.target.checked)} />}
+              label="Print code under QR"
+            />
+          </Box>
+
+          <ExportEncryptionFields value={encryption} onChange={setEncryption} />
+
+          {layout ? (
+            <Typography variant="body2" color="text.secondary">
+              {layout.columns} × {layout.rows} = {layout.perSheet} stickers per sheet,
+              {' '}{Math.ceil(codeCount / layout.perSheet).toLocaleString()} sheets
+              for {codeCount.toLocaleString()} codes
+            </Typography>
+          ) : (
+            <Alert severity="error">{layoutError}</Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => onExport(options, encryption)}
+          disabled={!layout || vendorMissing}
+        >
+          Download PDF
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StickerSheetDialog;
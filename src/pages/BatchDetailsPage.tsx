@@ -1,6 +1,6 @@
 // src/pages/BatchDetailsPage.tsx
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -28,88 +28,265 @@ import {
   DialogContent,
   DialogContentText,
   DialogTitle,
+  TextField,
+  IconButton,
+  Tooltip,
+  Checkbox,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import {
   GetApp as DownloadIcon,
   Delete as DeleteIcon,
   Warning as WarningIcon,
+  PlayArrow as ResumeIcon,
+  Print as PrintIcon,
+  History as HistoryIcon,
+  ContentCopy as CopyIcon,
+  RestoreFromTrash as RestoreIcon,
+  Block as DisableIcon,
+  CheckCircle as EnableIcon,
+  Replay as ResetIcon,
 } from '@mui/icons-material';
 import { BatchService } from '../services/BatchService';
+import { useAuth } from '../contexts/AuthContext';
+import type { BulkCodeOperation, BulkUpdateCodesResult, CodeStatusCounts } from '../services/BatchService';
+import { CODE_STATUSES, CODE_STATUS_LABELS, getCodeStatusColor } from '../utils/codeStatusUtils';
+import StickerSheetDialog from '../components/StickerSheetDialog';
+import ExportCodesDialog from '../components/ExportCodesDialog';
+import type { ExportEncryptionOptions, ExportOptionsInput } from '../../functions/shared/codeExports.mjs';
+import type { StickerSheetOptions } from '../../functions/shared/stickerSheets.mjs';
 import { formatDistance, format } from 'date-fns';
-import type { StickerBatchWithId, StickerCodeWithId } from '../types/DatabaseTypes';
+import type { CodeStatus, StickerBatchWithId, StickerCodeWithId } from '../types/DatabaseTypes';
+import { estimateRemainingMs, getProgressPercentage } from '../utils/batchProgressUtils';
+import type { ProgressSample } from '../utils/batchProgressUtils';
+
+// Codes loaded per page in the codes table
+const CODES_PAGE_SIZE = 25;
+
+// Batch statuses in which codes cannot be changed
+const LOCKED_BATCH_STATUSES = ['generating', 'archived', 'deleting'];
+
+const BULK_OPERATION_LABELS: Record<BulkCodeOperation, string> = {
+  disable: 'Disable',
+  enable: 'Re-enable',
+  reset: 'Reset to Available',
+};
 
 const BatchDetailsPage: React.FC = () => {
   const { batchId } = useParams<{ batchId: string }>();
   const navigate = useNavigate();
+  const { userRoles } = useAuth();
+  const canEditCodes = ['superadmin', 'admin', 'editor'].some(role => userRoles.includes(role));
+  const canDeleteBatches = userRoles.includes('superadmin') || userRoles.includes('admin');
   
   const [batch, setBatch] = useState<StickerBatchWithId | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [codes, setCodes] = useState<StickerCodeWithId[]>([]);
   const [codesLoading, setCodesLoading] = useState(false);
-  const [codeCounts, setCodeCounts] = useState({
-    available: 0,
-    assigned: 0,
-    disabled: 0,
-    total: 0,
-  });
+  const [codesHasMore, setCodesHasMore] = useState(false);
+  // Cursor of the next page; a ref so fetchCodes stays the same between pages
+  const codesLastDocRef = useRef<unknown>(null);
+  // Read through a ref by the batch subscription, which outlives renders
+  const [codeStatusFilter, setCodeStatusFilter] = useState<CodeStatus | ''>('');
+  const codeStatusFilterRef = useRef<CodeStatus | ''>('');
+  const [codeCounts, setCodeCounts] = useState<CodeStatusCounts>(() => BatchService.totalCodeCounts({}));
   
   // Deletion dialog state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
+  // Assigned codes reported when deletion was refused; confirming again overrides
+  const [deleteAssignedCount, setDeleteAssignedCount] = useState<number | null>(null);
+  const [restoreLoading, setRestoreLoading] = useState(false);
+  const [purgeDialogOpen, setPurgeDialogOpen] = useState(false);
+  const [purgeLoading, setPurgeLoading] = useState(false);
+  const [purgeMessage, setPurgeMessage] = useState<string | null>(null);
+  
+  // Code selection and bulk operation state
+  const [selectedCodes, setSelectedCodes] = useState<string[]>([]);
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [bulkOperation, setBulkOperation] = useState<BulkCodeOperation | null>(null);
+  const [bulkLoading, setBulkLoading] = useState(false);
+  const [bulkResult, setBulkResult] = useState<BulkUpdateCodesResult | null>(null);
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [bulkReason, setBulkReason] = useState('');
+  
+  // Resume state
+  const [resumeLoading, setResumeLoading] = useState(false);
+  const [resumeError, setResumeError] = useState<string | null>(null);
   
   // Export state
   const [exportLoading, setExportLoading] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [stickerDialogOpen, setStickerDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  // Password of a password-protected ZIP export, shown once
+  const [exportPassword, setExportPassword] = useState<{ fileName: string; password: string } | null>(null);
+  const [passwordCopied, setPasswordCopied] = useState(false);
   
-  // Load batch details
-  useEffect(() => {
-    const fetchBatch = async () => {
-      if (!batchId) return;
-      
-      setLoading(true);
-      setError(null);
-      
-      try {
-        const batchData = await BatchService.getBatchById(batchId);
-        if (batchData) {
-          setBatch(batchData);
-          
-          // Load code counts
-          const counts = await BatchService.getCodeCountsByStatus(batchId);
-          setCodeCounts(counts);
-          
-          // Load sample codes
-          await fetchCodes();
-        } else {
-          setError('Batch not found');
-        }
-      } catch (err: any) {
-        setError(err.message || 'Failed to load batch details');
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    fetchBatch();
-  }, [batchId]);
+  // Progress observations for the ETA, and the last status seen
+  const firstSampleRef = useRef<ProgressSample | null>(null);
+  const [latestSample, setLatestSample] = useState<ProgressSample | null>(null);
+  const lastStatusRef = useRef<string | null>(null);
+  
+  // Re-render periodically while generating so staleness and ETA stay current
+  const [, setNow] = useState(Date.now());
+  
+  const clearSelection = useCallback(() => {
+    setSelectedCodes([]);
+    setSelectAllMatching(false);
+  }, []);
   
-  // Fetch sample codes
-  const fetchCodes = async () => {
+  // Fetch the first page of codes matching the filter, or the next page
+  const fetchCodes = useCallback(async (loadMore = false) => {
     if (!batchId) return;
     
+    if (!loadMore) {
+      clearSelection();
+    }
+    
     setCodesLoading(true);
     try {
       const result = await BatchService.getCodesFromBatch(batchId, {
-        pageSize: 10
+        pageSize: CODES_PAGE_SIZE,
+        status: codeStatusFilterRef.current || undefined,
+        startAfterDoc: loadMore ? codesLastDocRef.current : null,
       });
-      setCodes(result.codes);
+      setCodes(previous => loadMore ? [...previous, ...result.codes] : result.codes);
+      setCodesHasMore(result.hasMore);
+      codesLastDocRef.current = result.lastDoc;
     } catch (err) {
       console.error('Error fetching codes:', err);
     } finally {
       setCodesLoading(false);
     }
+  }, [batchId, clearSelection]);
+  
+  // Fetch code counts and sample codes
+  const fetchCodeData = useCallback(async () => {
+    if (!batchId) return;
+    
+    try {
+      setCodeCounts(await BatchService.getCodeCountsByStatus(batchId));
+    } catch (err) {
+      console.error('Error fetching code counts:', err);
+    }
+    
+    await fetchCodes();
+  }, [batchId, fetchCodes]);
+  
+  // Subscribe to live batch details
+  useEffect(() => {
+    if (!batchId) return;
+    
+    setLoading(true);
+    setError(null);
+    firstSampleRef.current = null;
+    lastStatusRef.current = null;
+    
+    const unsubscribe = BatchService.subscribeToBatch(
+      batchId,
+      (batchData) => {
+        if (!batchData) {
+          // A purge that finished while we watched
+          if (lastStatusRef.current === 'deleting') {
+            navigate('/codes/batches');
+            return;
+          }
+          setBatch(null);
+          setError('Batch not found');
+          setLoading(false);
+          return;
+        }
+        
+        setBatch(batchData);
+        
+        const sample = { count: batchData.generatedCount, time: Date.now() };
+        if (!firstSampleRef.current) {
+          firstSampleRef.current = sample;
+        }
+        setLatestSample(sample);
+        
+        // Stored counters arrive with the batch itself
+        if (batchData.codeCounts) {
+          setCodeCounts(BatchService.totalCodeCounts(batchData.codeCounts));
+        }
+        
+        // Reload counts and sample codes on first load and on status transitions
+        if (lastStatusRef.current !== batchData.status) {
+          lastStatusRef.current = batchData.status;
+          fetchCodeData();
+        }
+        
+        setLoading(false);
+      },
+      (err) => {
+        setError(err.message || 'Failed to load batch details');
+        setLoading(false);
+      }
+    );
+    
+    return unsubscribe;
+  }, [batchId, fetchCodeData, navigate]);
+  
+  useEffect(() => {
+    if (batch?.status !== 'generating') return;
+    
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, [batch?.status]);
+  
+  const handleCodeStatusFilterChange = (status: CodeStatus | '') => {
+    codeStatusFilterRef.current = status;
+    setCodeStatusFilter(status);
+    fetchCodes();
+  };
+  
+  const toggleCodeSelected = (code: string) => {
+    setSelectAllMatching(false);
+    setSelectedCodes(previous => previous.includes(code)
+      ? previous.filter(selected => selected !== code)
+      : [...previous, code]);
+  };
+  
+  const toggleAllLoadedSelected = () => {
+    if (selectAllMatching || selectedCodes.length === codes.length) {
+      clearSelection();
+    } else {
+      setSelectedCodes(codes.map(code => code.id));
+    }
+  };
+  
+  // Apply the confirmed bulk operation to the selection
+  const handleBulkOperation = async () => {
+    if (!batchId || !bulkOperation) return;
+    
+    setBulkLoading(true);
+    setBulkError(null);
+    setBulkResult(null);
+    
+    try {
+      const result = await BatchService.bulkUpdateCodes(
+        batchId,
+        bulkOperation,
+        selectAllMatching
+          ? { allMatching: true, status: codeStatusFilter || undefined }
+          : { codes: selectedCodes },
+        bulkReason
+      );
+      setBulkResult(result);
+      await fetchCodeData();
+    } catch (err: unknown) {
+      setBulkError(err instanceof Error ? err.message : 'Failed to update codes');
+    } finally {
+      setBulkLoading(false);
+      setBulkOperation(null);
+      setBulkReason('');
+    }
   };
   
   // Handle batch deletion
@@ -118,10 +295,13 @@ const BatchDetailsPage: React.FC = () => {
     
     setDeleteLoading(true);
     try {
-      const result = await BatchService.deleteBatch(batchId);
+      const result = await BatchService.deleteBatch(batchId, { force: deleteAssignedCount !== null });
       if (result.success) {
         // Redirect to batch list
         navigate('/codes/batches');
+      } else if (result.assignedCount) {
+        // Ask again, making the override explicit
+        setDeleteAssignedCount(result.assignedCount);
       } else {
         setError(result.message);
         setDeleteDialogOpen(false);
@@ -134,8 +314,25 @@ const BatchDetailsPage: React.FC = () => {
     }
   };
   
+  // Handle resuming a stuck or failed batch
+  const handleResumeBatch = async () => {
+    if (!batchId) return;
+    
+    setResumeLoading(true);
+    setResumeError(null);
+    
+    try {
+      await BatchService.resumeBatch(batchId);
+    } catch (err: unknown) {
+      setResumeError(`Failed to resume generation: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      // The batch subscription picks up the queued job
+      setResumeLoading(false);
+    }
+  };
+  
   // Handle code export
-  const handleExportCodes = async () => {
+  const handleExportCodes = async (options: Parameters<typeof BatchService.exportCodes>[1] = {}) => {
     if (!batchId) return;
     
     setExportLoading(true);
@@ -143,7 +340,7 @@ const BatchDetailsPage: React.FC = () => {
     setExportSuccess(null);
     
     try {
-      const result = await BatchService.exportCodes(batchId);
+      const result = await BatchService.exportCodes(batchId, options);
       
       // Show success message with code count
       setExportSuccess(`Successfully prepared export of ${result.codeCount.toLocaleString()} codes. Downloading now...`);
@@ -156,6 +353,11 @@ const BatchDetailsPage: React.FC = () => {
       link.click();
       document.body.removeChild(link);
       
+      if (result.password) {
+        setPasswordCopied(false);
+        setExportPassword({ fileName: result.fileName, password: result.password });
+      }
+      
       // Clear success message after a while
       setTimeout(() => {
         setExportSuccess(null);
@@ -168,6 +370,30 @@ const BatchDetailsPage: React.FC = () => {
     }
   };
   
+  // Handle options picked in the export dialog
+  const handleExportWithOptions = (options: ExportOptionsInput) => {
+    setExportDialogOpen(false);
+    handleExportCodes(options);
+  };
+  
+  // Handle sticker sheet (PDF) export
+  const handleExportStickerSheet = (sheet: StickerSheetOptions, encryption: ExportEncryptionOptions) => {
+    setStickerDialogOpen(false);
+    handleExportCodes({ format: 'pdf', sheet, encryption });
+  };
+  
+  // Copy the export password to the clipboard
+  const handleCopyPassword = async () => {
+    if (!exportPassword) return;
+    
+    try {
+      await navigator.clipboard.writeText(exportPassword.password);
+      setPasswordCopied(true);
+    } catch (err: unknown) {
+      console.error('Failed to copy password:', err);
+    }
+  };
+  
   // Helper to format timestamps
   const formatTimestamp = (timestamp: any) => {
     if (!timestamp) return 'N/A';
@@ -176,6 +402,48 @@ const BatchDetailsPage: React.FC = () => {
     return format(date, 'PPpp');
   };
   
+  // Open the delete confirmation
+  const openDeleteDialog = () => {
+    setDeleteAssignedCount(null);
+    setDeleteDialogOpen(true);
+  };
+  
+  // Handle restoring the batch from the trash
+  const handleRestoreBatch = async () => {
+    if (!batchId) return;
+    
+    setRestoreLoading(true);
+    try {
+      await BatchService.restoreBatch(batchId);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to restore batch');
+    } finally {
+      // The batch subscription picks up the restored status
+      setRestoreLoading(false);
+    }
+  };
+  
+  // Handle permanent deletion from the trash
+  const handlePurgeBatch = async () => {
+    if (!batchId) return;
+    
+    setPurgeLoading(true);
+    setPurgeMessage(null);
+    try {
+      const result = await BatchService.purgeBatch(batchId);
+      setPurgeDialogOpen(false);
+      if (!result.completed) {
+        setPurgeMessage(result.message);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to delete batch');
+      setPurgeDialogOpen(false);
+    } finally {
+      // The batch subscription shows progress and leaves once it is gone
+      setPurgeLoading(false);
+    }
+  };
+  
   // Helper to format relative time
   const formatRelativeTime = (timestamp: any) => {
     if (!timestamp) return '';
@@ -193,6 +461,8 @@ const BatchDetailsPage: React.FC = () => {
         return 'success';
       case 'failed':
         return 'error';
+      case 'deleting':
+        return 'warning';
       default:
         return 'default';
     }
@@ -232,12 +502,22 @@ const BatchDetailsPage: React.FC = () => {
     );
   }
   
-  // Calculate progress percentage
-  const progressPercentage = batch.status === 'generating'
-    ? Math.round((batch.generatedCount / batch.quantity) * 100)
-    : batch.status === 'completed'
-      ? 100
-      : 0;
+  // Calculate progress percentage and estimated time left
+  const progressPercentage = batch.status === 'failed' ? 0 : getProgressPercentage(batch);
+  const remainingMs = batch.status === 'generating' && firstSampleRef.current && latestSample
+    ? estimateRemainingMs(firstSampleRef.current, latestSample, batch.quantity)
+    : null;
+  
+  const deletePercentage = batch.deleteTotal
+    ? Math.min(100, Math.round(((batch.deletedCount || 0) / batch.deleteTotal) * 100))
+    : 0;
+  
+  // Code selection: picked codes, or every code matching the filter
+  const codesLocked = LOCKED_BATCH_STATUSES.includes(batch.status);
+  const canSelectCodes = canEditCodes && !codesLocked;
+  const matchingCount = codeStatusFilter ? codeCounts[codeStatusFilter] : codeCounts.total;
+  const selectionCount = selectAllMatching ? matchingCount : selectedCodes.length;
+  const allLoadedSelected = codes.length > 0 && (selectAllMatching || selectedCodes.length === codes.length);
   
   return (
     <Box sx={{ p: 3, maxWidth: '1200px', mx: 'auto' }}>
@@ -252,6 +532,62 @@ const BatchDetailsPage: React.FC = () => {
         <Typography color="text.primary">Batch Details</Typography>
       </Breadcrumbs>
       
+      {/* Trash notice */}
+      {batch.status === 'archived' && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          action={
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {canDeleteBatches && (
+                <Button
+                  color="inherit"
+                  size="small"
+                  startIcon={restoreLoading ? <CircularProgress size={16} /> : <RestoreIcon />}
+                  onClick={handleRestoreBatch}
+                  disabled={restoreLoading || purgeLoading}
+                >
+                  Restore
+                </Button>
+              )}
+              {canDeleteBatches && (
+                <Button
+                  color="inherit"
+                  size="small"
+                  startIcon={<DeleteIcon />}
+                  onClick={() => setPurgeDialogOpen(true)}
+                  disabled={restoreLoading || purgeLoading}
+                >
+                  Delete Permanently
+                </Button>
+              )}
+            </Box>
+          }
+        >
+          This batch is in the trash
+          {batch.purgeAfter && ` and will be permanently deleted on ${format(batch.purgeAfter.toDate(), 'PP')}`}.
+        </Alert>
+      )}
+      
+      {purgeMessage && (
+        <Alert severity="info" sx={{ mb: 2 }} onClose={() => setPurgeMessage(null)}>
+          {purgeMessage}
+        </Alert>
+      )}
+      
+      {/* Generation feedback messages */}
+      {batch.status === 'failed' && batch.lastError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Generation failed after {batch.generatedCount} of {batch.quantity} codes: {batch.lastError}
+        </Alert>
+      )}
+      
+      {resumeError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setResumeError(null)}>
+          {resumeError}
+        </Alert>
+      )}
+      
       {/* Export feedback messages */}
       {exportError && (
         <Alert severity="error" sx={{ mb: 2 }} onClose={() => setExportError(null)}>
@@ -272,10 +608,21 @@ const BatchDetailsPage: React.FC = () => {
         </Typography>
         
         <Box sx={{ display: 'flex', gap: 2 }}>
+          {canEditCodes && (resumeLoading || BatchService.isBatchResumable(batch)) && (
+            <Button 
+              variant="contained" 
+              startIcon={resumeLoading ? <CircularProgress size={20} /> : <ResumeIcon />}
+              onClick={handleResumeBatch}
+              disabled={resumeLoading || deleteLoading}
+            >
+              {resumeLoading ? 'Resuming...' : 'Resume Generation'}
+            </Button>
+          )}
+          
           <Button 
             variant="outlined" 
             startIcon={exportLoading ? <CircularProgress size={20} /> : <DownloadIcon />}
-            onClick={handleExportCodes}
+            onClick={() => setExportDialogOpen(true)}
             disabled={exportLoading || batch.status !== 'completed'}
           >
             {exportLoading ? 'Preparing...' : 'Export Codes'}
@@ -283,13 +630,44 @@ const BatchDetailsPage: React.FC = () => {
           
           <Button 
             variant="outlined" 
-            color="error"
-            startIcon={<DeleteIcon />}
-            onClick={() => setDeleteDialogOpen(true)}
-            disabled={exportLoading || deleteLoading}
+            startIcon={<PrintIcon />}
+            onClick={() => setStickerDialogOpen(true)}
+            disabled={exportLoading || batch.status !== 'completed'}
+          >
+            Sticker Sheets
+          </Button>
+          
+          <Button 
+            variant="outlined" 
+            startIcon={<HistoryIcon />}
+            component={Link}
+            to={`/codes/batches/${batch.id}/exports`}
           >
-            Delete Batch
+            Export History
           </Button>
+          
+          {canSelectCodes && (
+            <Button 
+              variant="outlined" 
+              startIcon={<DisableIcon />}
+              component={Link}
+              to={`/codes/batches/disable-codes?batchId=${batch.id}`}
+            >
+              Disable Codes
+            </Button>
+          )}
+          
+          {canDeleteBatches && batch.status !== 'archived' && batch.status !== 'deleting' && (
+            <Button 
+              variant="outlined" 
+              color="error"
+              startIcon={<DeleteIcon />}
+              onClick={openDeleteDialog}
+              disabled={exportLoading || deleteLoading || batch.status === 'generating'}
+            >
+              Delete Batch
+            </Button>
+          )}
         </Box>
       </Box>
       
@@ -301,9 +679,17 @@ const BatchDetailsPage: React.FC = () => {
             color={getStatusColor(batch.status)}
           />
           
+          {batch.status === 'deleting' && (
+            <Typography variant="body2" color="text.secondary">
+              Permanently deleting the batch and its codes...
+            </Typography>
+          )}
+          
           {batch.status === 'generating' && (
             <Typography variant="body2" color="text.secondary">
-              Generation in progress...
+              {batch.generationJob?.status === 'queued'
+                ? 'Queued for generation...'
+                : 'Generation in progress...'}
             </Typography>
           )}
         </Box>
@@ -317,6 +703,22 @@ const BatchDetailsPage: React.FC = () => {
             />
             <Typography variant="body2" align="right" sx={{ mt: 0.5 }}>
               {batch.generatedCount} of {batch.quantity} codes generated ({progressPercentage}%)
+              {remainingMs !== null && ` · about ${formatDistance(0, remainingMs)} left`}
+            </Typography>
+          </Box>
+        )}
+        
+        {batch.status === 'deleting' && (
+          <Box sx={{ width: '100%' }}>
+            <LinearProgress 
+              variant="determinate" 
+              color="error"
+              value={deletePercentage} 
+              sx={{ height: 10, borderRadius: 5 }}
+            />
+            <Typography variant="body2" align="right" sx={{ mt: 0.5 }}>
+              {(batch.deletedCount || 0).toLocaleString()} of {(batch.deleteTotal || 0).toLocaleString()} codes
+              deleted ({deletePercentage}%)
             </Typography>
           </Box>
         )}
@@ -347,6 +749,26 @@ const BatchDetailsPage: React.FC = () => {
                   </Typography>
                 </Box>
                 
+                {batch.generationJob && (
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography variant="body2" color="text.secondary">Generation Job:</Typography>
+                    <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                      {batch.generationJob.status.toUpperCase()}
+                      {' · '}{batch.generationJob.attempts} run{batch.generationJob.attempts === 1 ? '' : 's'}
+                      {batch.generationJob.updatedAt && ` · updated ${formatRelativeTime(batch.generationJob.updatedAt)}`}
+                    </Typography>
+                  </Box>
+                )}
+                
+                {batch.generationJob?.lastError && (
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography variant="body2" color="text.secondary">Last Job Error:</Typography>
+                    <Typography variant="body2" color="error" sx={{ textAlign: 'right' }}>
+                      {batch.generationJob.lastError}
+                    </Typography>
+                  </Box>
+                )}
+                
                 {batch.completedAt && (
                   <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                     <Typography variant="body2" color="text.secondary">Completed:</Typography>
@@ -399,52 +821,131 @@ const BatchDetailsPage: React.FC = () => {
                 </Box>
                 
                 <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <Typography variant="body2" color="text.secondary">Total Codes:</Typography>
-                  <Typography variant="body2">{batch.quantity}</Typography>
-                </Box>
-                
-                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <Typography variant="body2" color="text.secondary">Available:</Typography>
-                  <Chip 
-                    label={codeCounts.available} 
-                    size="small" 
-                    color="success" 
-                    variant="outlined" 
-                  />
+                  <Typography variant="body2" color="text.secondary">Check Digit:</Typography>
+                  <Typography variant="body2">
+                    {batch.includeCheckDigit
+                      ? `Yes (${batch.checkDigitVersion === 2 ? 'Luhn mod 32' : 'legacy'})`
+                      : 'No'}
+                  </Typography>
                 </Box>
                 
                 <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <Typography variant="body2" color="text.secondary">Assigned:</Typography>
-                  <Chip 
-                    label={codeCounts.assigned} 
-                    size="small" 
-                    color="primary" 
-                    variant="outlined" 
-                  />
+                  <Typography variant="body2" color="text.secondary">Total Codes:</Typography>
+                  <Typography variant="body2">{batch.quantity}</Typography>
                 </Box>
                 
-                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <Typography variant="body2" color="text.secondary">Disabled:</Typography>
-                  <Chip 
-                    label={codeCounts.disabled} 
-                    size="small" 
-                    color="error" 
-                    variant="outlined" 
-                  />
-                </Box>
+                {/* Codes per status; lifecycle statuses no code has reached are left out */}
+                {CODE_STATUSES
+                  .filter(status => ['available', 'assigned', 'disabled'].includes(status) || codeCounts[status] > 0)
+                  .map(status => (
+                    <Box key={status} sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                      <Typography variant="body2" color="text.secondary">{CODE_STATUS_LABELS[status]}:</Typography>
+                      <Chip 
+                        label={codeCounts[status]} 
+                        size="small" 
+                        color={getCodeStatusColor(status)} 
+                        variant="outlined" 
+                      />
+                    </Box>
+                  ))}
               </Box>
             </CardContent>
           </Card>
         </Grid>
       </Grid>
       
-      {/* Sample codes */}
+      {/* Codes, with selection and bulk operations */}
       <Paper sx={{ mt: 3, p: 2 }}>
-        <Typography variant="h6" gutterBottom>
-          Sample Codes
-        </Typography>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">
+            Codes
+          </Typography>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel id="code-status-filter-label">Status</InputLabel>
+            <Select
+              labelId="code-status-filter-label"
+              value={codeStatusFilter}
+              label="Status"
+              onChange={(e) => handleCodeStatusFilterChange(e.target.value as CodeStatus | '')}
+            >
+              <MenuItem value="">All Statuses</MenuItem>
+              {CODE_STATUSES.map(status => (
+                <MenuItem key={status} value={status}>{CODE_STATUS_LABELS[status]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
         
-        {codesLoading ? (
+        {/* Bulk operation messages */}
+        {bulkError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setBulkError(null)}>
+            {bulkError}
+          </Alert>
+        )}
+        {bulkResult && (
+          <Alert
+            severity={bulkResult.failedCount > 0 || !bulkResult.completed ? 'warning' : 'success'}
+            sx={{ mb: 2 }}
+            onClose={() => setBulkResult(null)}
+          >
+            {bulkResult.updated.toLocaleString()} codes updated
+            {bulkResult.unchanged > 0 && `, ${bulkResult.unchanged.toLocaleString()} already up to date`}
+            {bulkResult.failedCount > 0 && `, ${bulkResult.failedCount.toLocaleString()} failed`}.
+            {!bulkResult.completed && ' The operation stopped before all codes were processed; run it again to continue.'}
+            {bulkResult.failed.length > 0 && (
+              <Box component="ul" sx={{ m: 0, mt: 1, pl: 2 }}>
+                {bulkResult.failed.map(failure => (
+                  <li key={failure.code}>
+                    <Typography component="span" variant="body2" fontFamily="monospace">{failure.code}</Typography>
+                    : {failure.reason}
+                  </li>
+                ))}
+                {bulkResult.failedCount > bulkResult.failed.length && (
+                  <li>and {(bulkResult.failedCount - bulkResult.failed.length).toLocaleString()} more</li>
+                )}
+              </Box>
+            )}
+          </Alert>
+        )}
+        
+        {/* Bulk actions for the selection */}
+        {canEditCodes && selectionCount > 0 && (
+          <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2, p: 1, bgcolor: 'action.selected', borderRadius: 1 }}>
+            <Typography variant="body2" sx={{ flexGrow: 1 }}>
+              {selectionCount.toLocaleString()} selected
+            </Typography>
+            <Button size="small" startIcon={<DisableIcon />} onClick={() => setBulkOperation('disable')} disabled={bulkLoading}>
+              Disable
+            </Button>
+            <Button size="small" startIcon={<EnableIcon />} onClick={() => setBulkOperation('enable')} disabled={bulkLoading}>
+              Re-enable
+            </Button>
+            <Button size="small" startIcon={<ResetIcon />} onClick={() => setBulkOperation('reset')} disabled={bulkLoading}>
+              Reset to Available
+            </Button>
+          </Box>
+        )}
+        
+        {/* Offer every matching code once the loaded ones are all selected */}
+        {allLoadedSelected && matchingCount > codes.length && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {selectAllMatching ? (
+              <>
+                All {matchingCount.toLocaleString()} matching codes are selected.{' '}
+                <MuiLink component="button" onClick={clearSelection}>Clear selection</MuiLink>
+              </>
+            ) : (
+              <>
+                All {codes.length} loaded codes are selected.{' '}
+                <MuiLink component="button" onClick={() => setSelectAllMatching(true)}>
+                  Select all {matchingCount.toLocaleString()} matching codes
+                </MuiLink>
+              </>
+            )}
+          </Alert>
+        )}
+        
+        {codesLoading && codes.length === 0 ? (
           <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
             <CircularProgress size={24} />
           </Box>
@@ -453,6 +954,14 @@ const BatchDetailsPage: React.FC = () => {
             <Table size="small">
               <TableHead>
                 <TableRow>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={allLoadedSelected}
+                      indeterminate={!allLoadedSelected && selectedCodes.length > 0}
+                      onChange={toggleAllLoadedSelected}
+                      disabled={!canSelectCodes}
+                    />
+                  </TableCell>
                   <TableCell>Code</TableCell>
                   <TableCell>Status</TableCell>
                   <TableCell>Created</TableCell>
@@ -461,19 +970,24 @@ const BatchDetailsPage: React.FC = () => {
               </TableHead>
               <TableBody>
                 {codes.map((code) => (
-                  <TableRow key={code.id}>
+                  <TableRow key={code.id} selected={selectAllMatching || selectedCodes.includes(code.id)}>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={selectAllMatching || selectedCodes.includes(code.id)}
+                        onChange={() => toggleCodeSelected(code.id)}
+                        disabled={!canSelectCodes || selectAllMatching}
+                      />
+                    </TableCell>
                     <TableCell>
-                      <Typography fontFamily="monospace">{code.id}</Typography>
+                      <MuiLink component={Link} to={`/codes/${code.id}`} fontFamily="monospace">
+                        {code.id}
+                      </MuiLink>
                     </TableCell>
                     <TableCell>
                       <Chip 
                         label={code.status} 
                         size="small" 
-                        color={
-                          code.status === 'available' ? 'success' :
-                          code.status === 'assigned' ? 'primary' :
-                          'error'
-                        }
+                        color={getCodeStatusColor(code.status)}
                       />
                     </TableCell>
                     <TableCell>{formatRelativeTime(code.createdAt)}</TableCell>
@@ -487,6 +1001,18 @@ const BatchDetailsPage: React.FC = () => {
           <Alert severity="info">No codes available to display</Alert>
         )}
         
+        {codesHasMore && (
+          <Box sx={{ mt: 2, textAlign: 'center' }}>
+            <Button
+              onClick={() => fetchCodes(true)}
+              disabled={codesLoading}
+              startIcon={codesLoading ? <CircularProgress size={16} /> : null}
+            >
+              Load More
+            </Button>
+          </Box>
+        )}
+        
         <Box sx={{ mt: 2, textAlign: 'right' }}>
           <Button 
             component={Link} 
@@ -498,6 +1024,133 @@ const BatchDetailsPage: React.FC = () => {
         </Box>
       </Paper>
       
+      {/* Export options dialog */}
+      <ExportCodesDialog
+        open={exportDialogOpen}
+        onClose={() => setExportDialogOpen(false)}
+        onExport={handleExportWithOptions}
+      />
+      
+      {/* Sticker sheet layout dialog */}
+      <StickerSheetDialog
+        open={stickerDialogOpen}
+        codeCount={codeCounts.total || batch.generatedCount}
+        onClose={() => setStickerDialogOpen(false)}
+        onExport={handleExportStickerSheet}
+      />
+      
+      {/* One-time password of a password-protected ZIP export */}
+      <Dialog
+        open={exportPassword !== null}
+        onClose={() => setExportPassword(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Export Password</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {exportPassword?.fileName} is protected with this password. It is not stored
+            anywhere and cannot be shown again. Send it to the recipient separately from the file.
+          </DialogContentText>
+          <TextField
+            value={exportPassword?.password || ''}
+            fullWidth
+            slotProps={{
+              input: {
+                readOnly: true,
+                sx: { fontFamily: 'monospace' },
+                endAdornment: (
+                  <Tooltip title={passwordCopied ? 'Copied' : 'Copy'}>
+                    <IconButton onClick={handleCopyPassword} edge="end">
+                      <CopyIcon />
+                    </IconButton>
+                  </Tooltip>
+                ),
+              },
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setExportPassword(null)} variant="contained">
+            Done
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
+      {/* Bulk operation confirmation dialog */}
+      <Dialog
+        open={bulkOperation !== null}
+        onClose={() => !bulkLoading && setBulkOperation(null)}
+      >
+        <DialogTitle>{bulkOperation && BULK_OPERATION_LABELS[bulkOperation]} Codes</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {bulkOperation === 'disable' && `Disable ${selectionCount.toLocaleString()} codes? Disabled codes cannot be used until they are re-enabled.`}
+            {bulkOperation === 'enable' && `Re-enable ${selectionCount.toLocaleString()} codes? Disabled codes go back to assigned or available.`}
+            {bulkOperation === 'reset' && `Reset ${selectionCount.toLocaleString()} codes to available? Their assignments to users are removed.`}
+          </DialogContentText>
+          {bulkOperation === 'reset' && (
+            <TextField
+              label="Reason"
+              value={bulkReason}
+              onChange={(e) => setBulkReason(e.target.value)}
+              helperText="Required to unassign codes; codes without one are reported as failed"
+              fullWidth
+              sx={{ mt: 2 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setBulkOperation(null)} disabled={bulkLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleBulkOperation}
+            color={bulkOperation === 'enable' ? 'primary' : 'warning'}
+            variant="contained"
+            disabled={bulkLoading}
+            startIcon={bulkLoading ? <CircularProgress size={20} /> : null}
+          >
+            {bulkLoading ? 'Updating...' : bulkOperation && BULK_OPERATION_LABELS[bulkOperation]}
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
+      {/* Permanent deletion confirmation dialog */}
+      <Dialog
+        open={purgeDialogOpen}
+        onClose={() => setPurgeDialogOpen(false)}
+      >
+        <DialogTitle>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <WarningIcon color="error" />
+            Delete Permanently
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Permanently delete the batch "{batch.name}" and all its codes? This action
+            cannot be undone. Large batches keep being deleted in the background.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button 
+            onClick={() => setPurgeDialogOpen(false)} 
+            disabled={purgeLoading}
+          >
+            Cancel
+          </Button>
+          <Button 
+            onClick={handlePurgeBatch} 
+            color="error" 
+            disabled={purgeLoading}
+            startIcon={purgeLoading ? <CircularProgress size={20} /> : <DeleteIcon />}
+          >
+            {purgeLoading ? 'Deleting...' : 'Delete Permanently'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
       {/* Delete confirmation dialog */}
       <Dialog
         open={deleteDialogOpen}
@@ -511,9 +1164,16 @@ const BatchDetailsPage: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <DialogContentText>
-            Are you sure you want to delete the batch "{batch.name}" and all its
-            associated codes? This action cannot be undone.
+            Move the batch "{batch.name}" and all its codes to the trash? It can be
+            restored until the trash period ends, then it is permanently deleted.
           </DialogContentText>
+          {deleteAssignedCount !== null && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {deleteAssignedCount.toLocaleString()} codes in this batch are assigned to
+              users. Their stickers will stop working once the batch is purged.
+              Delete anyway?
+            </Alert>
+          )}
         </DialogContent>
         <DialogActions>
           <Button 
@@ -528,7 +1188,9 @@ const BatchDetailsPage: React.FC = () => {
             disabled={deleteLoading}
             startIcon={deleteLoading ? <CircularProgress size={20} /> : <DeleteIcon />}
           >
-            {deleteLoading ? 'Deleting...' : 'Delete'}
+            {deleteLoading
+              ? 'Deleting...'
+              : deleteAssignedCount !== null ? 'Delete Anyway' : 'Move to Trash'}
           </Button>
         </DialogActions>
       </Dialog>
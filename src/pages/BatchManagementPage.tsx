@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import {
   Box,
@@ -23,6 +23,10 @@ import {
   MenuItem,
   Card,
   CardContent,
+  LinearProgress,
+  Tabs,
+  Tab,
+  Tooltip,
 } from '@mui/material';
 import Grid from '@mui/material/Grid';
 import {
@@ -30,23 +34,39 @@ import {
   Refresh as RefreshIcon,
   ArrowForward as ArrowForwardIcon,
   GetApp as DownloadIcon,
+  History as HistoryIcon,
+  LocalPrintshop as VendorIcon,
+  RestoreFromTrash as RestoreIcon,
+  Block as DisableIcon,
+  Calculate as RecountIcon,
 } from '@mui/icons-material';
 import { BatchService } from '../services/BatchService';
 import { formatDistance, format } from 'date-fns';
 import type { StickerBatchWithId } from '../types/DatabaseTypes';
 import { useAuth } from '../contexts/AuthContext';
+import { estimateRemainingMs, getProgressPercentage } from '../utils/batchProgressUtils';
+import type { ProgressSample } from '../utils/batchProgressUtils';
+
+// Number of batches added by each "Load More"
+const PAGE_SIZE = 10;
 
 const BatchManagementPage: React.FC = () => {
   const { userRoles, user } = useAuth();
   const canCreateBatches = userRoles.includes('superadmin') || 
                           userRoles.includes('admin') || 
                           userRoles.some(role => role.includes('canCreateBatches'));
+  const canManageVendors = userRoles.includes('superadmin') || userRoles.includes('admin');
+  const canDisableCodes = canManageVendors || userRoles.includes('editor');
   
   const [batches, setBatches] = useState<StickerBatchWithId[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
-  const [lastDoc, setLastDoc] = useState<any>(null);
+  const [pageSize, setPageSize] = useState(PAGE_SIZE);
+  
+  // Batches or the trash (archived batches)
+  const [view, setView] = useState<'batches' | 'trash'>('batches');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
   
   // Filter state
   const [statusFilter, setStatusFilter] = useState<string>('');
@@ -57,90 +77,124 @@ const BatchManagementPage: React.FC = () => {
     total: 0,
     generating: 0,
     completed: 0,
-    failed: 0
+    failed: 0,
+    archived: 0
   });
   
-  // Load batches
+  // Recount of the stored counters
+  const [recounting, setRecounting] = useState(false);
+  const [recountMessage, setRecountMessage] = useState<string | null>(null);
+  
+  // First progress observation per generating batch, for the ETA
+  const firstSamplesRef = useRef<Map<string, ProgressSample>>(new Map());
+  
+  // Reset to the first page when filters change
   useEffect(() => {
-    fetchBatches();
-  }, [statusFilter, creatorFilter]);
+    setPageSize(PAGE_SIZE);
+  }, [statusFilter, creatorFilter, view]);
   
-  const fetchBatches = async (reset: boolean = true) => {
+  // Subscribe to live batches
+  useEffect(() => {
     setLoading(true);
     setError(null);
     
-    try {
-      // Apply filters
-      const options: any = {
-        pageSize: 10
-      };
-      
-      if (statusFilter) {
-        options.status = statusFilter;
-      }
-      
-      if (creatorFilter === 'mine' && user?.uid) {
-        options.createdBy = user.uid;
-      }
-      
-      // If not resetting, use the last document for pagination
-      if (!reset && lastDoc) {
-        options.startAfterDoc = lastDoc;
-      } else {
-        // Reset pagination when filters change
-        setLastDoc(null);
-      }
-      
-      const result = await BatchService.getBatches(options);
-      
-      if (reset) {
+    const options: { pageSize: number; status?: string; createdBy?: string; inTrash?: boolean } = {
+      pageSize,
+      inTrash: view === 'trash'
+    };
+    
+    if (statusFilter) {
+      options.status = statusFilter;
+    }
+    
+    if (creatorFilter === 'mine' && user?.uid) {
+      options.createdBy = user.uid;
+    }
+    
+    const unsubscribe = BatchService.subscribeToBatches(
+      options,
+      (result) => {
+        const now = Date.now();
+        result.batches.forEach(batch => {
+          if (batch.status === 'generating' && !firstSamplesRef.current.has(batch.id)) {
+            firstSamplesRef.current.set(batch.id, { count: batch.generatedCount, time: now });
+          }
+        });
+        
         setBatches(result.batches);
-      } else {
-        // Append to existing batches for pagination
-        setBatches(prev => [...prev, ...result.batches]);
+        setHasMore(result.hasMore);
+        setLoading(false);
+      },
+      (err) => {
+        setError(err.message || 'Failed to load batches');
+        setLoading(false);
       }
+    );
+    
+    return unsubscribe;
+  }, [statusFilter, creatorFilter, pageSize, user?.uid, view]);
+  
+  // Update statistics from Firestore
+  const updateStats = useCallback(async () => {
+    try {
+      // Read the stored batch counters
+      const stats = await BatchService.getBatchStats();
       
-      setHasMore(result.hasMore);
-      setLastDoc(result.lastDoc);
-      
-      // Update statistics
-      updateStats();
-    } catch (err: any) {
-      setError(err.message || 'Failed to load batches');
-    } finally {
-      setLoading(false);
+      setStats(stats);
+    } catch (err) {
+      console.error('Error updating stats:', err);
     }
-  };
+  }, []);
+  
+  // Refresh statistics when a batch appears or changes status
+  const statusKey = batches.map(batch => `${batch.id}:${batch.status}`).join(',');
+  useEffect(() => {
+    updateStats();
+  }, [statusKey, updateStats]);
   
   // Load more batches for pagination
   const loadMore = () => {
     if (!hasMore || loading) return;
-    fetchBatches(false);
+    setPageSize(prev => prev + PAGE_SIZE);
   };
   
-  // Update statistics from Firestore
-  const updateStats = async () => {
+  // Estimated time left for a generating batch
+  const getRemainingMs = (batch: StickerBatchWithId) => {
+    const first = firstSamplesRef.current.get(batch.id);
+    if (!first) return null;
+    return estimateRemainingMs(first, { count: batch.generatedCount, time: Date.now() }, batch.quantity);
+  };
+  
+  // Recount the stored counters, e.g. after they were deployed on existing batches
+  const handleRecount = async () => {
+    setRecounting(true);
+    setRecountMessage(null);
+    setError(null);
+    
     try {
-      // Get counts for each status
-      const allBatches = await BatchService.getBatches({ pageSize: 1000 });
-      
-      const stats = {
-        total: allBatches.batches.length,
-        generating: 0,
-        completed: 0,
-        failed: 0
-      };
-      
-      // Count batches by status
-      allBatches.batches.forEach(batch => {
-        if (batch.status === 'generating') stats.generating++;
-        else if (batch.status === 'completed') stats.completed++;
-        else if (batch.status === 'failed') stats.failed++;
-      });
-      
-      setStats(stats);
+      const result = await BatchService.recountCounters();
+      setRecountMessage(result.completed
+        ? `Counters recounted (${result.backfilled} batches backfilled).`
+        : `Recount stopped after ${result.backfilled} batches; ${result.remaining} are left. Run it again to continue.`);
+      await updateStats();
     } catch (err) {
-      console.error('Error updating stats:', err);
+      setError(err instanceof Error ? err.message : 'Failed to recount counters');
+    } finally {
+      setRecounting(false);
+    }
+  };
+  
+  // Restore a batch from the trash; the subscription drops it from the list
+  const handleRestore = async (batch: StickerBatchWithId) => {
+    setRestoringId(batch.id);
+    setError(null);
+    
+    try {
+      await BatchService.restoreBatch(batch.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore batch');
+    } finally {
+      setRestoringId(null);
     }
   };
   
@@ -169,6 +223,8 @@ const BatchManagementPage: React.FC = () => {
         return 'success';
       case 'failed':
         return 'error';
+      case 'deleting':
+        return 'warning';
       default:
         return 'default';
     }
@@ -194,12 +250,58 @@ const BatchManagementPage: React.FC = () => {
           <Button 
             variant="outlined" 
             startIcon={<RefreshIcon />}
-            onClick={() => fetchBatches()}
+            onClick={() => updateStats()}
             disabled={loading}
           >
             Refresh
           </Button>
           
+          {canManageVendors && (
+            <Tooltip title="Recount the batch and code totals from the documents">
+              <span>
+                <Button 
+                  variant="outlined" 
+                  startIcon={recounting ? <CircularProgress size={16} /> : <RecountIcon />}
+                  onClick={handleRecount}
+                  disabled={recounting}
+                >
+                  Recount
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+          
+          <Button 
+            variant="outlined" 
+            startIcon={<HistoryIcon />}
+            component={Link} 
+            to="/codes/exports"
+          >
+            Export History
+          </Button>
+          
+          {canManageVendors && (
+            <Button 
+              variant="outlined" 
+              startIcon={<VendorIcon />}
+              component={Link} 
+              to="/codes/printer-vendors"
+            >
+              Printer Vendors
+            </Button>
+          )}
+          
+          {canDisableCodes && (
+            <Button 
+              variant="outlined" 
+              startIcon={<DisableIcon />}
+              component={Link} 
+              to="/codes/batches/disable-codes"
+            >
+              Disable Codes
+            </Button>
+          )}
+          
           {canCreateBatches && (
             <Button 
               variant="contained" 
@@ -265,11 +367,17 @@ const BatchManagementPage: React.FC = () => {
         </Grid>
         </Grid>
 
+        {/* Batches / trash */}
+        <Tabs value={view} onChange={(_, value) => setView(value)} sx={{ mb: 2 }}>
+          <Tab value="batches" label="Batches" />
+          <Tab value="trash" label={`Trash (${stats.archived})`} />
+        </Tabs>
+
         {/* Filters */}
         <Paper sx={{ p: 2, mb: 3 }}>
         <Grid container spacing={2} alignItems="center">
             <Grid size={{ xs: 12, sm: 4 }}>
-            <FormControl fullWidth size="small">
+            <FormControl fullWidth size="small" disabled={view === 'trash'}>
                 <InputLabel id="status-filter-label">Status</InputLabel>
                 <Select
                 labelId="status-filter-label"
@@ -313,6 +421,11 @@ const BatchManagementPage: React.FC = () => {
         </Paper>
       
       {/* Error message */}
+      {recountMessage && (
+        <Alert severity="info" sx={{ mb: 3 }} onClose={() => setRecountMessage(null)}>
+          {recountMessage}
+        </Alert>
+      )}
       {error && (
         <Alert severity="error" sx={{ mb: 3 }}>
           {error}
@@ -326,7 +439,7 @@ const BatchManagementPage: React.FC = () => {
             <TableRow>
               <TableCell>Batch Name</TableCell>
               <TableCell>Status</TableCell>
-              <TableCell>Created</TableCell>
+              <TableCell>{view === 'trash' ? 'Deleted' : 'Created'}</TableCell>
               <TableCell>Prefix</TableCell>
               <TableCell>Quantity</TableCell>
               <TableCell>Actions</TableCell>
@@ -343,9 +456,9 @@ const BatchManagementPage: React.FC = () => {
               <TableRow>
                 <TableCell colSpan={6} align="center" sx={{ py: 3 }}>
                   <Typography variant="body2" color="text.secondary">
-                    No batches found
+                    {view === 'trash' ? 'The trash is empty' : 'No batches found'}
                   </Typography>
-                  {canCreateBatches && (
+                  {canCreateBatches && view === 'batches' && (
                     <Button 
                       component={Link}
                       to="/codes/generate"
@@ -380,24 +493,61 @@ const BatchManagementPage: React.FC = () => {
                       color={getStatusColor(batch.status)}
                     />
                   </TableCell>
-                  <TableCell>
-                    <Typography variant="body2">
-                      {formatTimestamp(batch.createdAt)}
-                    </Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      {formatRelativeTime(batch.createdAt)}
-                    </Typography>
-                  </TableCell>
+                  {view === 'trash' ? (
+                    <TableCell>
+                      <Typography variant="body2">
+                        {formatTimestamp(batch.archivedAt)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {batch.purgeAfter && `purged ${formatRelativeTime(batch.purgeAfter)}`}
+                      </Typography>
+                    </TableCell>
+                  ) : (
+                    <TableCell>
+                      <Typography variant="body2">
+                        {formatTimestamp(batch.createdAt)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {formatRelativeTime(batch.createdAt)}
+                      </Typography>
+                    </TableCell>
+                  )}
                   <TableCell>
                     <Typography variant="body2" fontFamily="monospace">
                       {batch.prefix}
                     </Typography>
                   </TableCell>
                   <TableCell>
-                    {batch.status === 'generating' ? (
-                      <Typography variant="body2">
-                        {batch.generatedCount} / {batch.quantity}
-                      </Typography>
+                    {batch.status === 'deleting' ? (
+                      <Box sx={{ minWidth: 140 }}>
+                        <Typography variant="body2">
+                          Deleting {(batch.deletedCount || 0).toLocaleString()} / {(batch.deleteTotal || 0).toLocaleString()}
+                        </Typography>
+                        <LinearProgress
+                          variant="determinate"
+                          color="error"
+                          value={batch.deleteTotal
+                            ? Math.min(100, ((batch.deletedCount || 0) / batch.deleteTotal) * 100)
+                            : 0}
+                          sx={{ my: 0.5 }}
+                        />
+                      </Box>
+                    ) : batch.status === 'generating' ? (
+                      <Box sx={{ minWidth: 140 }}>
+                        <Typography variant="body2">
+                          {batch.generatedCount} / {batch.quantity}
+                        </Typography>
+                        <LinearProgress
+                          variant="determinate"
+                          value={getProgressPercentage(batch)}
+                          sx={{ my: 0.5 }}
+                        />
+                        {getRemainingMs(batch) !== null && (
+                          <Typography variant="caption" color="text.secondary">
+                            about {formatDistance(0, getRemainingMs(batch) as number)} left
+                          </Typography>
+                        )}
+                      </Box>
                     ) : (
                       <Typography variant="body2">
                         {batch.quantity}
@@ -415,6 +565,23 @@ const BatchManagementPage: React.FC = () => {
                         <ArrowForwardIcon />
                       </IconButton>
                       
+                      {canManageVendors && batch.status === 'archived' && (
+                        <Tooltip title="Restore">
+                          <span>
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleRestore(batch)}
+                              disabled={restoringId === batch.id}
+                            >
+                              {restoringId === batch.id
+                                ? <CircularProgress size={20} />
+                                : <RestoreIcon />}
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      )}
+                      
                       {batch.status === 'completed' && (
                         <IconButton 
                           size="small"
@@ -0,0 +1,525 @@
+// src/pages/CodePage.tsx
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Alert,
+  Breadcrumbs,
+  Link as MuiLink,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import {
+  Block as DisableIcon,
+  CheckCircle as EnableIcon,
+  PersonAdd as AssignIcon,
+  PersonRemove as UnassignIcon,
+  SwapHoriz as ChangeStatusIcon,
+  Forward as TransferIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import type { Timestamp } from 'firebase/firestore';
+import { CodeGenerationService } from '../services/CodeGenerationService';
+import { useAuth } from '../contexts/AuthContext';
+import type {
+  CodeHistoryEventWithId,
+  CodeStatus,
+  StickerBatchWithId,
+  StickerCodeWithId,
+} from '../types/DatabaseTypes';
+import { CODE_STATUS_LABELS, getCodeStatusColor } from '../utils/codeStatusUtils';
+import {
+  getAllowedTransitions,
+  getNextAssignee,
+  getReenabledStatus,
+  getTransitionRequirements,
+  TRANSFERABLE_CODE_STATUSES,
+  validateCodeTransition,
+} from '../../functions/shared/codeLifecycle.mjs';
+
+const formatDate = (timestamp?: Timestamp) =>
+  timestamp ? format(timestamp.toDate(), 'PPp') : '-';
+
+// What a history event changed, e.g. "Assigned → Disabled" or "Reassigned from u1 to u2"
+const describeHistoryEvent = (event: CodeHistoryEventWithId) => {
+  const fromLabel = CODE_STATUS_LABELS[event.fromStatus] || event.fromStatus;
+  const toLabel = CODE_STATUS_LABELS[event.toStatus] || event.toStatus;
+  let summary = event.fromStatus === event.toStatus ? toLabel : `${fromLabel} → ${toLabel}`;
+
+  if (event.fromAssignedTo !== event.toAssignedTo) {
+    if (event.fromAssignedTo && event.toAssignedTo) {
+      summary += ` (reassigned from ${event.fromAssignedTo} to ${event.toAssignedTo})`;
+    } else if (event.toAssignedTo) {
+      summary += ` (assigned to ${event.toAssignedTo})`;
+    } else {
+      summary += ` (unassigned from ${event.fromAssignedTo})`;
+    }
+  }
+
+  return summary;
+};
+
+const CodePage: React.FC = () => {
+  const { code: codeParam } = useParams<{ code: string }>();
+  const codeId = (codeParam || '').toUpperCase();
+  const { userRoles } = useAuth();
+  const canEditCodes = ['superadmin', 'admin', 'editor'].some(role => userRoles.includes(role));
+
+  const [code, setCode] = useState<StickerCodeWithId | null>(null);
+  const [batch, setBatch] = useState<StickerBatchWithId | null>(null);
+  const [history, setHistory] = useState<CodeHistoryEventWithId[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Status change dialog state
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+  const [nextStatus, setNextStatus] = useState<CodeStatus | ''>('');
+  const [nextUserId, setNextUserId] = useState('');
+  const [statusReason, setStatusReason] = useState('');
+
+  // Unassign / transfer dialog state
+  const [ownershipAction, setOwnershipAction] = useState<'unassign' | 'transfer' | null>(null);
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [ownershipReason, setOwnershipReason] = useState('');
+  const [notifyEmail, setNotifyEmail] = useState('');
+
+  const loadCode = useCallback(async () => {
+    const codeData = await CodeGenerationService.getCode(codeId);
+    setCode(codeData);
+    setBatch(codeData ? await CodeGenerationService.getBatchById(codeData.batchId) : null);
+    setHistory(codeData ? await CodeGenerationService.getCodeHistory(codeId) : []);
+  }, [codeId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    loadCode().finally(() => setLoading(false));
+  }, [loadCode]);
+
+  // Run a code change and reload the code and its history
+  const runUpdate = async (change: () => Promise<{ success: boolean; message: string }>) => {
+    setUpdating(true);
+    setError(null);
+    setSuccess(null);
+
+    const result = await change();
+    if (result.success) {
+      setSuccess(result.message);
+      await loadCode();
+    } else {
+      setError(result.message);
+    }
+
+    setUpdating(false);
+  };
+
+  const updateStatus = (status: CodeStatus, details: { assignedTo?: string; reason?: string } = {}) =>
+    runUpdate(() => CodeGenerationService.updateCodeStatus(codeId, status, details));
+
+  const openOwnershipDialog = (action: 'unassign' | 'transfer') => {
+    setOwnershipAction(action);
+    setNewOwnerId('');
+    setOwnershipReason('');
+    setNotifyEmail('');
+  };
+
+  const handleOwnershipChange = async () => {
+    const action = ownershipAction;
+    setOwnershipAction(null);
+
+    await runUpdate(() => action === 'transfer'
+      ? CodeGenerationService.transferCode(codeId, newOwnerId.trim(), ownershipReason.trim(), notifyEmail.trim())
+      : CodeGenerationService.unassignCode(codeId, ownershipReason.trim(), notifyEmail.trim()));
+  };
+
+  const openStatusDialog = (status: CodeStatus | '') => {
+    setAssigning(status === 'assigned');
+    setNextStatus(status);
+    setNextUserId('');
+    setStatusReason('');
+    setStatusDialogOpen(true);
+  };
+
+  const handleStatusChange = async () => {
+    if (!nextStatus) return;
+
+    setStatusDialogOpen(false);
+    await updateStatus(nextStatus, {
+      assignedTo: nextUserId.trim() || undefined,
+      reason: statusReason.trim() || undefined,
+    });
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!code) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert severity="info">Code {codeId} not found</Alert>
+        <Box sx={{ mt: 2 }}>
+          <Button component={Link} to="/codes/batches" variant="outlined">
+            Back to Batch List
+          </Button>
+        </Box>
+      </Box>
+    );
+  }
+
+  // What the status dialog needs for the chosen status
+  const allowedStatuses = getAllowedTransitions(code.status);
+  const requirements = nextStatus
+    ? getTransitionRequirements(code, nextStatus)
+    : { assignee: false, reason: false };
+  const transition = nextStatus
+    ? validateCodeTransition(code, nextStatus, { assignedTo: nextUserId.trim() || undefined, reason: statusReason })
+    : null;
+
+  // The status dialog only changes the status; owners are changed by
+  // assigning, unassigning and transferring
+  const statusOnlyOptions = allowedStatuses.filter(status =>
+    !getTransitionRequirements(code, status).assignee &&
+    getNextAssignee(code, status) === (code.assignedTo || null)
+  );
+  const statusOptions: CodeStatus[] = assigning ? ['assigned'] : statusOnlyOptions;
+  const canTransfer = Boolean(code.assignedTo) && TRANSFERABLE_CODE_STATUSES.includes(code.status);
+  const canUnassign = Boolean(code.assignedTo) && allowedStatuses.includes('available');
+  const ownershipReady = ownershipReason.trim() !== '' &&
+    (ownershipAction !== 'transfer' || (newOwnerId.trim() !== '' && newOwnerId.trim() !== code.assignedTo));
+
+  return (
+    <Box sx={{ p: 3, maxWidth: '900px', mx: 'auto' }}>
+      {/* Breadcrumbs navigation */}
+      <Breadcrumbs sx={{ mb: 2 }}>
+        <MuiLink component={Link} to="/">
+          Dashboard
+        </MuiLink>
+        <MuiLink component={Link} to="/codes/batches">
+          QR Codes
+        </MuiLink>
+        <MuiLink component={Link} to={`/codes/batches/${code.batchId}`}>
+          {batch?.name || 'Batch Details'}
+        </MuiLink>
+        <Typography color="text.primary">{code.id}</Typography>
+      </Breadcrumbs>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="h4" component="h1" fontFamily="monospace">
+            {code.id}
+          </Typography>
+          <Chip label={CODE_STATUS_LABELS[code.status] || code.status} color={getCodeStatusColor(code.status)} />
+        </Box>
+
+        {canEditCodes && allowedStatuses.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {code.status === 'disabled' ? (
+              <Button
+                variant="outlined"
+                startIcon={<EnableIcon />}
+                onClick={() => updateStatus(getReenabledStatus(code))}
+                disabled={updating}
+              >
+                Re-enable
+              </Button>
+            ) : allowedStatuses.includes('disabled') && (
+              <Button
+                variant="outlined"
+                color="error"
+                startIcon={<DisableIcon />}
+                onClick={() => updateStatus('disabled')}
+                disabled={updating}
+              >
+                Disable
+              </Button>
+            )}
+            {allowedStatuses.includes('assigned') && !code.assignedTo && code.status !== 'disabled' && (
+              <Button
+                variant="outlined"
+                startIcon={<AssignIcon />}
+                onClick={() => openStatusDialog('assigned')}
+                disabled={updating}
+              >
+                Assign
+              </Button>
+            )}
+            {canTransfer && (
+              <Button
+                variant="outlined"
+                startIcon={<TransferIcon />}
+                onClick={() => openOwnershipDialog('transfer')}
+                disabled={updating}
+              >
+                Transfer
+              </Button>
+            )}
+            {canUnassign && (
+              <Button
+                variant="outlined"
+                startIcon={<UnassignIcon />}
+                onClick={() => openOwnershipDialog('unassign')}
+                disabled={updating}
+              >
+                Unassign
+              </Button>
+            )}
+            {statusOnlyOptions.length > 0 && (
+              <Button
+                variant="contained"
+                startIcon={<ChangeStatusIcon />}
+                onClick={() => openStatusDialog('')}
+                disabled={updating}
+              >
+                Change Status
+              </Button>
+            )}
+          </Box>
+        )}
+      </Box>
+
+      {/* Status messages */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>Code</Typography>
+        <Table size="small">
+          <TableBody>
+            <TableRow>
+              <TableCell>Batch</TableCell>
+              <TableCell>
+                <MuiLink component={Link} to={`/codes/batches/${code.batchId}`}>
+                  {batch?.name || code.batchId}
+                </MuiLink>
+                {batch && batch.status !== 'completed' && (
+                  <Chip label={batch.status} size="small" sx={{ ml: 1 }} />
+                )}
+              </TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Created</TableCell>
+              <TableCell>{formatDate(code.createdAt)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Product Type</TableCell>
+              <TableCell>{code.productType || '-'}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Expires</TableCell>
+              <TableCell>{formatDate(code.expirationDate)}</TableCell>
+            </TableRow>
+            {code.status === 'disabled' && code.disabledReason && (
+              <TableRow>
+                <TableCell>Disabled</TableCell>
+                <TableCell>
+                  {code.disabledReason}
+                  {code.disabledAt && ` (${formatDate(code.disabledAt)})`}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>Assignment</Typography>
+        {code.assignedTo ? (
+          <Table size="small">
+            <TableBody>
+              <TableRow>
+                <TableCell>Assigned To</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{code.assignedTo}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Assigned</TableCell>
+                <TableCell>{formatDate(code.assignedAt)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            This code has not been assigned to a user.
+          </Typography>
+        )}
+      </Paper>
+
+      {/* History timeline, newest first, ending with the code's creation */}
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>History</Typography>
+        <List dense disablePadding>
+          {history.map(event => (
+            <ListItem key={event.id} divider disableGutters>
+              <ListItemText
+                primary={describeHistoryEvent(event)}
+                secondary={
+                  <>
+                    {formatDate(event.changedAt)}
+                    {event.changedBy && ` by ${event.changedBy}`}
+                    {event.reason && (
+                      <Typography component="span" variant="body2" display="block">
+                        Reason: {event.reason}
+                      </Typography>
+                    )}
+                  </>
+                }
+              />
+            </ListItem>
+          ))}
+          <ListItem disableGutters>
+            <ListItemText primary="Created" secondary={formatDate(code.createdAt)} />
+          </ListItem>
+        </List>
+      </Paper>
+
+      {/* Unassign / transfer dialog */}
+      <Dialog open={ownershipAction !== null} onClose={() => setOwnershipAction(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{ownershipAction === 'transfer' ? 'Transfer Code' : 'Unassign Code'}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {ownershipAction === 'transfer'
+              ? `Move ${code.id} from ${code.assignedTo} to another user. The code stays ${CODE_STATUS_LABELS[code.status].toLowerCase()}.`
+              : `Release ${code.id} from ${code.assignedTo}, e.g. when the item was sold. The code becomes available.`}
+          </DialogContentText>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {ownershipAction === 'transfer' && (
+              <TextField
+                autoFocus
+                required
+                label="New Owner User ID"
+                value={newOwnerId}
+                onChange={(e) => setNewOwnerId(e.target.value)}
+                fullWidth
+              />
+            )}
+            <TextField
+              autoFocus={ownershipAction === 'unassign'}
+              required
+              label="Reason"
+              value={ownershipReason}
+              onChange={(e) => setOwnershipReason(e.target.value)}
+              fullWidth
+            />
+            <TextField
+              type="email"
+              label="Notification Email"
+              value={notifyEmail}
+              onChange={(e) => setNotifyEmail(e.target.value)}
+              helperText="Optional; this address is emailed about the change"
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOwnershipAction(null)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleOwnershipChange}
+            variant="contained"
+            disabled={!ownershipReady}
+          >
+            {ownershipAction === 'transfer' ? 'Transfer' : 'Unassign'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Status change (or assignment) dialog; only transitions the code lifecycle allows are offered */}
+      <Dialog open={statusDialogOpen} onClose={() => setStatusDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{assigning ? 'Assign Code' : 'Change Status'}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {code.id} is {CODE_STATUS_LABELS[code.status] || code.status}
+            {code.assignedTo && `, assigned to ${code.assignedTo}`}.
+          </DialogContentText>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <FormControl fullWidth>
+              <InputLabel id="next-status-label">New Status</InputLabel>
+              <Select
+                labelId="next-status-label"
+                value={nextStatus}
+                label="New Status"
+                onChange={(e) => setNextStatus(e.target.value as CodeStatus)}
+              >
+                {statusOptions.map(status => (
+                  <MenuItem key={status} value={status}>
+                    {CODE_STATUS_LABELS[status]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {requirements.assignee && (
+              <TextField
+                autoFocus
+                label="User ID"
+                value={nextUserId}
+                onChange={(e) => setNextUserId(e.target.value)}
+                fullWidth
+              />
+            )}
+            {requirements.reason && (
+              <TextField
+                label="Reason"
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                helperText={nextStatus === 'retired' ? 'Retired codes cannot be used again' : 'Required to move the code back'}
+                fullWidth
+              />
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setStatusDialogOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleStatusChange}
+            variant="contained"
+            disabled={!transition?.valid}
+          >
+            {assigning ? 'Assign' : nextStatus ? `Change to ${CODE_STATUS_LABELS[nextStatus]}` : 'Change'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CodePage;
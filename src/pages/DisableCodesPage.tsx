@@ -0,0 +1,393 @@
+// src/pages/DisableCodesPage.tsx
+
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Breadcrumbs,
+  Link as MuiLink,
+  Tabs,
+  Tab,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  Block as DisableIcon,
+  CheckCircle as EnableIcon,
+  GetApp as DownloadIcon,
+} from '@mui/icons-material';
+import { BatchService } from '../services/BatchService';
+import type {
+  CodeDisableResult,
+  CodeDisableTarget,
+  SetCodesDisabledResult,
+} from '../services/BatchService';
+import { parseCodeList, validateCodeFormat } from '../utils/codeValidationUtils';
+import { CODE_STATUSES, CODE_STATUS_LABELS } from '../utils/codeStatusUtils';
+import type { CodeStatus } from '../types/DatabaseTypes';
+
+// Report rows shown in the table; the downloaded report has them all
+const REPORT_ROWS_SHOWN = 200;
+
+const RESULT_COLORS: Record<CodeDisableResult, 'success' | 'info' | 'warning' | 'error' | 'default'> = {
+  disabled: 'success',
+  enabled: 'success',
+  unchanged: 'default',
+  invalid: 'error',
+  duplicate: 'default',
+  'not-found': 'warning',
+  locked: 'warning',
+  rejected: 'warning',
+  failed: 'error',
+};
+
+/**
+ * Download the per-code report as a CSV file
+ */
+const downloadReport = (result: SetCodesDisabledResult) => {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = [
+    'Code,Result,Message',
+    ...result.report.map(entry => [entry.code, entry.result, entry.message].map(escape).join(',')),
+  ];
+
+  const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `code-disable-report-${new Date().toISOString().slice(0, 10)}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Disable (with a reason) or re-enable many codes at once, e.g. when a
+ * printer roll is damaged or stolen: a pasted or uploaded list of codes,
+ * or all codes of a batch matching a status filter
+ */
+const DisableCodesPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const initialBatchId = searchParams.get('batchId') || '';
+
+  const [mode, setMode] = useState<'list' | 'batch'>(initialBatchId ? 'batch' : 'list');
+  const [codesText, setCodesText] = useState('');
+  const [uploadedCodes, setUploadedCodes] = useState<{ fileName: string; codes: string[] } | null>(null);
+  const [batchId, setBatchId] = useState(initialBatchId);
+  const [statusFilter, setStatusFilter] = useState<CodeStatus | ''>('');
+  const [reason, setReason] = useState('');
+
+  const [confirmAction, setConfirmAction] = useState<'disable' | 'enable' | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SetCodesDisabledResult | null>(null);
+  const [resultFilter, setResultFilter] = useState<CodeDisableResult | ''>('');
+
+  // Codes from the upload, or else from the text box
+  const listedCodes = useMemo(
+    () => uploadedCodes ? uploadedCodes.codes : parseCodeList(codesText),
+    [uploadedCodes, codesText]
+  );
+  const invalidCount = useMemo(
+    () => listedCodes.filter(code => !validateCodeFormat(code).valid).length,
+    [listedCodes]
+  );
+
+  const target: CodeDisableTarget | null = mode === 'list'
+    ? (listedCodes.length > 0 ? { codes: listedCodes } : null)
+    : (batchId.trim() ? { batchId: batchId.trim(), status: statusFilter || undefined } : null);
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+
+    setUploadedCodes({ fileName: file.name, codes: parseCodeList(await file.text(), true) });
+    setResult(null);
+  };
+
+  const handleRun = async () => {
+    if (!target || !confirmAction) return;
+
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    setResultFilter('');
+
+    try {
+      setResult(await BatchService.setCodesDisabled(target, confirmAction, reason));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to update codes');
+    } finally {
+      setRunning(false);
+      setConfirmAction(null);
+    }
+  };
+
+  const targetDescription = mode === 'list'
+    ? `${listedCodes.length.toLocaleString()} listed codes`
+    : `all ${statusFilter ? `${statusFilter} ` : ''}codes of batch ${batchId.trim()}`;
+
+  const reportRows = result
+    ? result.report.filter(entry => !resultFilter || entry.result === resultFilter)
+    : [];
+
+  return (
+    <Box sx={{ p: 3, maxWidth: '1000px', mx: 'auto' }}>
+      {/* Breadcrumbs navigation */}
+      <Breadcrumbs sx={{ mb: 2 }}>
+        <MuiLink component={Link} to="/">
+          Dashboard
+        </MuiLink>
+        <MuiLink component={Link} to="/codes/batches">
+          QR Codes
+        </MuiLink>
+        <Typography color="text.primary">Disable Codes</Typography>
+      </Breadcrumbs>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        Disable Codes
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Disable codes that must not be used, for example from a damaged or stolen printer roll,
+        or re-enable them. Disabled codes keep their assignment and go back to it when re-enabled.
+      </Typography>
+
+      <Paper sx={{ mb: 3 }}>
+        <Tabs value={mode} onChange={(_, value) => setMode(value)} sx={{ borderBottom: 1, borderColor: 'divider' }}>
+          <Tab value="list" label="Code List" />
+          <Tab value="batch" label="Batch" />
+        </Tabs>
+
+        <Box sx={{ p: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {mode === 'list' ? (
+            <>
+              <TextField
+                label="Codes"
+                placeholder="Paste codes separated by new lines, commas or spaces"
+                multiline
+                minRows={6}
+                maxRows={16}
+                value={codesText}
+                onChange={(e) => {
+                  setCodesText(e.target.value);
+                  setUploadedCodes(null);
+                }}
+                disabled={uploadedCodes !== null}
+                fullWidth
+              />
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                <Button variant="outlined" component="label" startIcon={<UploadIcon />}>
+                  Upload CSV
+                  <input
+                    type="file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    hidden
+                    onChange={(e) => {
+                      handleUpload(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </Button>
+                {uploadedCodes && (
+                  <Chip label={uploadedCodes.fileName} onDelete={() => setUploadedCodes(null)} />
+                )}
+                <Typography variant="body2" color="text.secondary">
+                  {listedCodes.length.toLocaleString()} codes
+                  {invalidCount > 0 && `, ${invalidCount.toLocaleString()} with an invalid format`}
+                  {uploadedCodes && ' (first column of the file)'}
+                </Typography>
+              </Box>
+            </>
+          ) : (
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+              <TextField
+                label="Batch ID"
+                value={batchId}
+                onChange={(e) => setBatchId(e.target.value)}
+                sx={{ flexGrow: 1, minWidth: 240 }}
+              />
+              <FormControl sx={{ minWidth: 180 }}>
+                <InputLabel id="disable-status-filter-label">Status</InputLabel>
+                <Select
+                  labelId="disable-status-filter-label"
+                  value={statusFilter}
+                  label="Status"
+                  onChange={(e) => setStatusFilter(e.target.value as CodeStatus | '')}
+                >
+                  <MenuItem value="">All Statuses</MenuItem>
+                  {CODE_STATUSES.map(status => (
+                    <MenuItem key={status} value={status}>{CODE_STATUS_LABELS[status]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+
+          <TextField
+            label="Reason"
+            placeholder="e.g. Roll 12 damaged at the printer"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            helperText="Required to disable; stored on each disabled code"
+            fullWidth
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Button
+              variant="contained"
+              color="error"
+              startIcon={<DisableIcon />}
+              onClick={() => setConfirmAction('disable')}
+              disabled={!target || !reason.trim() || running}
+            >
+              Disable Codes
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<EnableIcon />}
+              onClick={() => setConfirmAction('enable')}
+              disabled={!target || running}
+            >
+              Re-enable Codes
+            </Button>
+          </Box>
+        </Box>
+      </Paper>
+
+      {/* Error message */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {running && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {/* Per-code report */}
+      {result && (
+        <Paper sx={{ p: 3 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h6">Report</Typography>
+            <Button startIcon={<DownloadIcon />} onClick={() => downloadReport(result)}>
+              Download Report
+            </Button>
+          </Box>
+
+          {!result.completed && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              The run stopped before all codes were processed. Run it again to continue;
+              codes already updated are reported as unchanged.
+            </Alert>
+          )}
+          {result.reportTruncated && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              The report lists the first {result.report.length.toLocaleString()} codes; the counts cover all of them.
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+            {(Object.entries(result.counts) as [CodeDisableResult, number][]).map(([codeResult, count]) => (
+              <Chip
+                key={codeResult}
+                label={`${codeResult}: ${count.toLocaleString()}`}
+                color={RESULT_COLORS[codeResult]}
+                variant={resultFilter === codeResult ? 'filled' : 'outlined'}
+                onClick={() => setResultFilter(resultFilter === codeResult ? '' : codeResult)}
+              />
+            ))}
+          </Box>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Code</TableCell>
+                  <TableCell>Result</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {reportRows.slice(0, REPORT_ROWS_SHOWN).map((entry, index) => (
+                  <TableRow key={`${entry.code}-${index}`}>
+                    <TableCell>
+                      {entry.result === 'invalid' || entry.result === 'not-found' ? (
+                        <Typography fontFamily="monospace">{entry.code}</Typography>
+                      ) : (
+                        <MuiLink component={Link} to={`/codes/${entry.code}`} fontFamily="monospace">
+                          {entry.code}
+                        </MuiLink>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={entry.result} size="small" color={RESULT_COLORS[entry.result]} />
+                    </TableCell>
+                    <TableCell>{entry.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          {reportRows.length > REPORT_ROWS_SHOWN && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              Showing {REPORT_ROWS_SHOWN} of {reportRows.length.toLocaleString()} codes. Download the report for all of them.
+            </Typography>
+          )}
+        </Paper>
+      )}
+
+      {/* Confirmation dialog */}
+      <Dialog open={confirmAction !== null} onClose={() => !running && setConfirmAction(null)}>
+        <DialogTitle>{confirmAction === 'disable' ? 'Disable Codes' : 'Re-enable Codes'}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {confirmAction === 'disable'
+              ? `Disable ${targetDescription}? Reason: "${reason.trim()}".`
+              : `Re-enable ${targetDescription}? Disabled codes go back to assigned or available.`}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmAction(null)} disabled={running}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRun}
+            variant="contained"
+            color={confirmAction === 'disable' ? 'error' : 'primary'}
+            disabled={running}
+            startIcon={running ? <CircularProgress size={20} /> : null}
+          >
+            {confirmAction === 'disable' ? 'Disable' : 'Re-enable'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default DisableCodesPage;
@@ -0,0 +1,462 @@
+// src/pages/ExportHistoryPage.tsx
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Breadcrumbs,
+  Link as MuiLink,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress,
+  Tooltip,
+} from '@mui/material';
+import Grid from '@mui/material/Grid';
+import {
+  Refresh as RefreshIcon,
+  GetApp as DownloadIcon,
+  PushPin as KeepIcon,
+  PushPinOutlined as KeepOffIcon,
+  Lock as LockIcon,
+  Description as ManifestIcon,
+  VerifiedUser as VerifyIcon,
+} from '@mui/icons-material';
+import type { QueryDocumentSnapshot, Timestamp } from 'firebase/firestore';
+import { formatDistance, format } from 'date-fns';
+import { ExportService } from '../services/ExportService';
+import { useAuth } from '../contexts/AuthContext';
+import type { CodeExportWithId } from '../types/DatabaseTypes';
+import { downloadManifest } from '../utils/exportManifestUtils';
+
+// Number of exports loaded per page
+const PAGE_SIZE = 20;
+
+const FORMAT_LABELS: Record<string, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  excel: 'Excel',
+  pdf: 'PDF',
+};
+
+/**
+ * Describe how an export file was encrypted, or null when it is not
+ */
+const getEncryptionLabel = (record: CodeExportWithId) => {
+  switch (record.encryption?.mode) {
+    case 'zip':
+      return 'Password-protected ZIP';
+    case 'pgp':
+      return `PGP for ${record.encryption.vendorName || record.encryption.vendorId}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Format a byte count for display
+ */
+const formatFileSize = (bytes: number | null) => {
+  if (bytes === null || bytes === undefined) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const ExportHistoryPage: React.FC = () => {
+  const { batchId } = useParams<{ batchId?: string }>();
+  const { user } = useAuth();
+
+  const [exports, setExports] = useState<CodeExportWithId[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // Filter state ('' = all users)
+  const [userFilter, setUserFilter] = useState<string>('');
+
+  // Users seen in the history, kept across filter changes for the filter menu
+  const knownUsersRef = useRef(new Map<string, string>());
+
+  // Fetch a page of export records (the first page when startAfterDoc is null)
+  const fetchExports = useCallback(async (startAfterDoc: QueryDocumentSnapshot | null) => {
+    const reset = startAfterDoc === null;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await ExportService.getExports({
+        pageSize: PAGE_SIZE,
+        startAfterDoc,
+        batchId,
+        userId: userFilter || undefined,
+      });
+
+      result.exports.forEach(record => {
+        knownUsersRef.current.set(record.userId, record.userEmail || record.userId);
+      });
+
+      setExports(prev => reset ? result.exports : [...prev, ...result.exports]);
+      setHasMore(result.hasMore);
+      setLastDoc(result.lastDoc);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load export history');
+    } finally {
+      setLoading(false);
+    }
+  }, [batchId, userFilter]);
+
+  // Load the first page when the scope or filter changes
+  useEffect(() => {
+    fetchExports(null);
+  }, [fetchExports]);
+
+  // Download an export with a freshly signed URL
+  const handleDownload = async (record: CodeExportWithId) => {
+    setDownloadingId(record.id);
+    setError(null);
+
+    try {
+      const result = await ExportService.getDownloadUrl(record.id);
+
+      const link = document.createElement('a');
+      link.href = result.downloadUrl;
+      link.download = result.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      setError(`Failed to download ${record.fileName}: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  // Toggle whether the retention cleanup keeps an export
+  const handleToggleKeep = async (record: CodeExportWithId) => {
+    const keep = !record.keep;
+    setError(null);
+
+    try {
+      await ExportService.setKeep(record.id, keep);
+      setExports(prev => prev.map(item => item.id === record.id ? { ...item, keep } : item));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update export');
+    }
+  };
+
+  // Helper to format timestamps
+  const formatTimestamp = (timestamp?: Timestamp | null) => {
+    if (!timestamp) return 'N/A';
+
+    return format(timestamp.toDate(), 'PPp');
+  };
+
+  // Helper to format relative time
+  const formatRelativeTime = (timestamp?: Timestamp | null) => {
+    if (!timestamp) return '';
+
+    return formatDistance(timestamp.toDate(), new Date(), { addSuffix: true });
+  };
+
+  // Get status color
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'running':
+        return 'primary';
+      case 'completed':
+        return 'success';
+      case 'failed':
+        return 'error';
+      default:
+        return 'default';
+    }
+  };
+
+  // Name shown for the user who made an export
+  const getUserLabel = (record: CodeExportWithId) => {
+    if (record.userId === user?.uid) return 'You';
+    return record.userEmail || record.userId;
+  };
+
+  return (
+    <Box sx={{ p: 3, maxWidth: '1200px', mx: 'auto' }}>
+      {/* Breadcrumbs navigation */}
+      <Breadcrumbs sx={{ mb: 2 }}>
+        <MuiLink component={Link} to="/">
+          Dashboard
+        </MuiLink>
+        <MuiLink component={Link} to="/codes/batches">
+          QR Codes
+        </MuiLink>
+        {batchId && (
+          <MuiLink component={Link} to={`/codes/batches/${batchId}`}>
+            Batch Details
+          </MuiLink>
+        )}
+        <Typography color="text.primary">Export History</Typography>
+      </Breadcrumbs>
+
+      {/* Header with actions */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4" component="h1">
+          {batchId ? 'Batch Export History' : 'Export History'}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<VerifyIcon />}
+            component={Link}
+            to="/codes/exports/verify"
+          >
+            Verify Export
+          </Button>
+
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={() => fetchExports(null)}
+            disabled={loading}
+          >
+            Refresh
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Filters */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Grid container spacing={2} alignItems="center">
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="user-filter-label">Exported By</InputLabel>
+              <Select
+                labelId="user-filter-label"
+                value={userFilter}
+                label="Exported By"
+                onChange={(e) => setUserFilter(e.target.value)}
+              >
+                <MenuItem value="">All Users</MenuItem>
+                {user && <MenuItem value={user.uid}>My Exports</MenuItem>}
+                {Array.from(knownUsersRef.current.entries())
+                  .filter(([userId]) => userId !== user?.uid)
+                  .map(([userId, label]) => (
+                    <MenuItem key={userId} value={userId}>{label}</MenuItem>
+                  ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 8 }} sx={{ textAlign: 'right' }}>
+            <Button
+              onClick={() => setUserFilter('')}
+              disabled={!userFilter}
+            >
+              Clear Filters
+            </Button>
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {/* Error message */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Export table */}
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Exported</TableCell>
+              <TableCell>File</TableCell>
+              {!batchId && <TableCell>Batch</TableCell>}
+              <TableCell>Exported By</TableCell>
+              <TableCell>Codes</TableCell>
+              <TableCell>Size</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading && exports.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} align="center" sx={{ py: 3 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : exports.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} align="center" sx={{ py: 3 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    No exports found
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              exports.map((record) => {
+                // Records from before status tracking were only written once complete
+                const status = record.status || 'completed';
+                const encryptionLabel = getEncryptionLabel(record);
+
+                return (
+                  <TableRow key={record.id}>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {formatTimestamp(record.timestamp)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {formatRelativeTime(record.timestamp)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+                        {record.fileName}
+                      </Typography>
+                      <Chip label={FORMAT_LABELS[record.format] || record.format} size="small" variant="outlined" />
+                      {encryptionLabel && (
+                        <Tooltip title={record.encryption?.keyFingerprint ? `Key ${record.encryption.keyFingerprint}` : ''}>
+                          <Chip
+                            icon={<LockIcon />}
+                            label={encryptionLabel}
+                            size="small"
+                            variant="outlined"
+                            sx={{ ml: 0.5 }}
+                          />
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                    {!batchId && (
+                      <TableCell>
+                        <MuiLink component={Link} to={`/codes/batches/${record.batchId}`}>
+                          {record.batchName || record.batchId}
+                        </MuiLink>
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <Typography variant="body2">
+                        {getUserLabel(record)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      {status === 'running' ? (
+                        <Box sx={{ minWidth: 120 }}>
+                          <Typography variant="body2">
+                            {(record.exportedCount || 0).toLocaleString()} / {(record.totalCount || 0).toLocaleString()}
+                          </Typography>
+                          <LinearProgress
+                            variant="determinate"
+                            value={record.totalCount
+                              ? Math.min(100, ((record.exportedCount || 0) / record.totalCount) * 100)
+                              : 0}
+                            sx={{ my: 0.5 }}
+                          />
+                        </Box>
+                      ) : (
+                        <Typography variant="body2">
+                          {record.codeCount !== null && record.codeCount !== undefined
+                            ? record.codeCount.toLocaleString()
+                            : '—'}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {formatFileSize(record.fileSize)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip
+                        title={status === 'expired'
+                          ? `File deleted ${formatTimestamp(record.expiredAt)}`
+                          : record.error || ''}
+                      >
+                        <Chip
+                          label={status.toUpperCase()}
+                          size="small"
+                          color={getStatusColor(status)}
+                        />
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>
+                      {status === 'completed' && (
+                        <Tooltip title={record.keep ? 'Kept past the retention period' : 'Keep past the retention period'}>
+                          <IconButton
+                            size="small"
+                            color={record.keep ? 'primary' : 'default'}
+                            onClick={() => handleToggleKeep(record)}
+                          >
+                            {record.keep ? <KeepIcon /> : <KeepOffIcon />}
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {record.manifest && (
+                        <Tooltip title="Download signed manifest">
+                          <IconButton size="small" onClick={() => downloadManifest(record)}>
+                            <ManifestIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {status === 'completed' && (
+                        <Tooltip title="Download with a fresh link">
+                          <span>
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleDownload(record)}
+                              disabled={downloadingId === record.id}
+                            >
+                              {downloadingId === record.id
+                                ? <CircularProgress size={20} />
+                                : <DownloadIcon />}
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Load more button */}
+      {hasMore && (
+        <Box sx={{ mt: 2, textAlign: 'center' }}>
+          <Button
+            onClick={() => fetchExports(lastDoc)}
+            disabled={loading}
+            variant="outlined"
+          >
+            {loading ? (
+              <CircularProgress size={24} sx={{ mr: 1 }} />
+            ) : (
+              'Load More'
+            )}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ExportHistoryPage;
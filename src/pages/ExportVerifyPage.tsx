@@ -0,0 +1,269 @@
+// src/pages/ExportVerifyPage.tsx
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  AlertTitle,
+  Breadcrumbs,
+  Link as MuiLink,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  CheckCircle as PassIcon,
+  Cancel as FailIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { ExportService } from '../services/ExportService';
+import type { ExportVerification } from '../services/ExportService';
+import { readManifestFile, sha256File } from '../utils/exportManifestUtils';
+
+interface CheckResult {
+  label: string;
+  passed: boolean;
+}
+
+/**
+ * Turn a verification result into the list of checks shown to the user
+ */
+const getChecks = (result: ExportVerification): CheckResult[] => {
+  const checks: CheckResult[] = [
+    {
+      label: result.exportRecord
+        ? `File matches export ${result.exportRecord.exportId}` +
+          (result.exportRecord.match === 'encrypted' ? ' (encrypted file)' : '')
+        : 'File matches a recorded export',
+      passed: result.exportRecord !== null,
+    },
+  ];
+
+  if (result.exportRecord) {
+    checks.push({ label: 'Export record signature is valid', passed: result.exportRecord.signatureValid });
+  }
+  if (result.providedManifest) {
+    checks.push({ label: 'Manifest signature is valid', passed: result.providedManifest.signatureValid });
+    checks.push({ label: 'File matches the manifest checksum', passed: result.providedManifest.fileMatches });
+  }
+  if (result.batch) {
+    checks.push({
+      label: result.batch.exists
+        ? `Batch "${result.batch.name}" still exists`
+        : `Batch ${result.batch.batchId} still exists`,
+      passed: result.batch.exists,
+    });
+    if (result.batch.exists) {
+      checks.push({
+        label: 'Batch is not in the trash',
+        passed: result.batch.status !== 'archived' && result.batch.status !== 'deleting',
+      });
+    }
+    if (result.batch.changedSinceExport !== null) {
+      checks.push({
+        label: result.batch.changedSinceExport > 0
+          ? `${result.batch.changedSinceExport.toLocaleString()} codes changed since the export`
+          : 'No codes changed since the export',
+        passed: result.batch.changedSinceExport === 0,
+      });
+    }
+  }
+
+  return checks;
+};
+
+const ExportVerifyPage: React.FC = () => {
+  const [exportFile, setExportFile] = useState<File | null>(null);
+  const [manifestFile, setManifestFile] = useState<File | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ExportVerification | null>(null);
+
+  const handleVerify = async () => {
+    if (!exportFile) return;
+
+    setVerifying(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const manifest = manifestFile ? await readManifestFile(manifestFile) : null;
+      const sha256 = await sha256File(exportFile);
+      setResult(await ExportService.verifyExport(sha256, manifest));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify export');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const manifest = result?.manifest;
+
+  return (
+    <Box sx={{ p: 3, maxWidth: '900px', mx: 'auto' }}>
+      {/* Breadcrumbs navigation */}
+      <Breadcrumbs sx={{ mb: 2 }}>
+        <MuiLink component={Link} to="/">
+          Dashboard
+        </MuiLink>
+        <MuiLink component={Link} to="/codes/batches">
+          QR Codes
+        </MuiLink>
+        <MuiLink component={Link} to="/codes/exports">
+          Export History
+        </MuiLink>
+        <Typography color="text.primary">Verify Export</Typography>
+      </Breadcrumbs>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        Verify Export
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Check that an export file is unaltered and matches the batch it was exported from.
+        The file is hashed in your browser and is not uploaded.
+      </Typography>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Button variant="outlined" component="label" startIcon={<UploadIcon />}>
+              Export File
+              <input
+                type="file"
+                hidden
+                onChange={(e) => {
+                  setExportFile(e.target.files?.[0] || null);
+                  setResult(null);
+                }}
+              />
+            </Button>
+            <Typography variant="body2" color={exportFile ? 'text.primary' : 'text.secondary'}>
+              {exportFile ? exportFile.name : 'CSV, Excel, JSON, PDF, ZIP or PGP file'}
+            </Typography>
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Button variant="outlined" component="label" startIcon={<UploadIcon />}>
+              Manifest
+              <input
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  setManifestFile(e.target.files?.[0] || null);
+                  setResult(null);
+                }}
+              />
+            </Button>
+            <Typography variant="body2" color={manifestFile ? 'text.primary' : 'text.secondary'}>
+              {manifestFile ? manifestFile.name : 'Optional .manifest.json sent with the export'}
+            </Typography>
+          </Box>
+
+          <Box>
+            <Button
+              variant="contained"
+              onClick={handleVerify}
+              disabled={!exportFile || verifying}
+              startIcon={verifying ? <CircularProgress size={20} /> : null}
+            >
+              {verifying ? 'Verifying...' : 'Verify'}
+            </Button>
+          </Box>
+        </Box>
+      </Paper>
+
+      {/* Error message */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {result && (
+        <Paper sx={{ p: 3 }}>
+          <Alert severity={result.verified ? 'success' : 'error'} sx={{ mb: 2 }}>
+            <AlertTitle>{result.verified ? 'Verified' : 'Not verified'}</AlertTitle>
+            {result.verified
+              ? 'The file is unaltered, and its batch and codes have not changed since the export.'
+              : result.problems.join('. ')}
+          </Alert>
+
+          <List dense>
+            {getChecks(result).map(check => (
+              <ListItem key={check.label}>
+                <ListItemIcon>
+                  {check.passed ? <PassIcon color="success" /> : <FailIcon color="error" />}
+                </ListItemIcon>
+                <ListItemText primary={check.label} />
+              </ListItem>
+            ))}
+          </List>
+
+          {manifest && (
+            <>
+              <Typography variant="h6" sx={{ mt: 2 }}>Manifest</Typography>
+              <Table size="small">
+                <TableBody>
+                  <TableRow>
+                    <TableCell>Batch</TableCell>
+                    <TableCell>
+                      <MuiLink component={Link} to={`/codes/batches/${manifest.batchId}`}>
+                        {manifest.batchName || manifest.batchId}
+                      </MuiLink>
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>File</TableCell>
+                    <TableCell>{manifest.fileName}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Codes</TableCell>
+                    <TableCell>
+                      {manifest.codeCount.toLocaleString()}
+                      {result.batch?.codeCount !== null && result.batch?.codeCount !== undefined &&
+                        ` (batch has ${result.batch.codeCount.toLocaleString()})`}
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Exported</TableCell>
+                    <TableCell>
+                      {format(new Date(manifest.exportedAt), 'PPp')} by {manifest.exportedByEmail || manifest.exportedBy}
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>SHA-256</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {manifest.sha256}
+                    </TableCell>
+                  </TableRow>
+                  {manifest.fileSha256 && (
+                    <TableRow>
+                      <TableCell>SHA-256 (encrypted file)</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                        {manifest.fileSha256}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default ExportVerifyPage;
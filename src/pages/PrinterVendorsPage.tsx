@@ -0,0 +1,291 @@
+// src/pages/PrinterVendorsPage.tsx
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Breadcrumbs,
+  Link as MuiLink,
+  Tooltip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import type { Timestamp } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { PrinterVendorService } from '../services/PrinterVendorService';
+import type { PrinterVendorWithId } from '../types/DatabaseTypes';
+
+/**
+ * Group a key fingerprint in blocks of four for reading it out
+ */
+const formatFingerprint = (fingerprint: string) =>
+  fingerprint.match(/.{1,4}/g)?.join(' ') || fingerprint;
+
+const PrinterVendorsPage: React.FC = () => {
+  const [vendors, setVendors] = useState<PrinterVendorWithId[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Add/edit dialog state (editing null = closed, {} = new vendor)
+  const [editing, setEditing] = useState<Partial<PrinterVendorWithId> | null>(null);
+  const [name, setName] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Deletion dialog state
+  const [deleting, setDeleting] = useState<PrinterVendorWithId | null>(null);
+
+  const fetchVendors = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setVendors(await PrinterVendorService.getVendors());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load printer vendors');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVendors();
+  }, [fetchVendors]);
+
+  const openEditor = (vendor: Partial<PrinterVendorWithId>) => {
+    setEditing(vendor);
+    setName(vendor.name || '');
+    setPublicKey(vendor.publicKey || '');
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      await PrinterVendorService.saveVendor({
+        vendorId: editing.id,
+        name,
+        publicKey,
+      });
+      setEditing(null);
+      fetchVendors();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save printer vendor');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await PrinterVendorService.deleteVendor(deleting.id);
+      setVendors(prev => prev.filter(vendor => vendor.id !== deleting.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete printer vendor');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  // Helper to format timestamps
+  const formatTimestamp = (timestamp?: Timestamp | null) => {
+    if (!timestamp) return 'N/A';
+
+    return format(timestamp.toDate(), 'PPp');
+  };
+
+  return (
+    <Box sx={{ p: 3, maxWidth: '1200px', mx: 'auto' }}>
+      {/* Breadcrumbs navigation */}
+      <Breadcrumbs sx={{ mb: 2 }}>
+        <MuiLink component={Link} to="/">
+          Dashboard
+        </MuiLink>
+        <MuiLink component={Link} to="/codes/batches">
+          QR Codes
+        </MuiLink>
+        <Typography color="text.primary">Printer Vendors</Typography>
+      </Breadcrumbs>
+
+      {/* Header with actions */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h4" component="h1">
+          Printer Vendors
+        </Typography>
+
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => openEditor({})}
+        >
+          Add Vendor
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Exports can be encrypted to a vendor's OpenPGP public key so only the vendor can open them.
+      </Typography>
+
+      {/* Error message */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Vendor table */}
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Key</TableCell>
+              <TableCell>Updated</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center" sx={{ py: 3 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : vendors.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center" sx={{ py: 3 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    No printer vendors yet
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              vendors.map((vendor) => (
+                <TableRow key={vendor.id}>
+                  <TableCell>
+                    <Typography variant="body2">{vendor.name}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                      {formatFingerprint(vendor.keyFingerprint)}
+                    </Typography>
+                    {vendor.keyUserIds && vendor.keyUserIds.length > 0 && (
+                      <Typography variant="caption" color="text.secondary">
+                        {vendor.keyUserIds.join(', ')}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {formatTimestamp(vendor.updatedAt)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => openEditor(vendor)}>
+                        <EditIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => setDeleting(vendor)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Add/edit dialog */}
+      <Dialog open={editing !== null} onClose={() => setEditing(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{editing?.id ? 'Edit Printer Vendor' : 'Add Printer Vendor'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              fullWidth
+              required
+            />
+            <TextField
+              label="OpenPGP Public Key"
+              value={publicKey}
+              onChange={(e) => setPublicKey(e.target.value)}
+              placeholder="-----BEGIN PGP PUBLIC KEY BLOCK-----"
+              helperText="Armored public key from the vendor. Check the fingerprint with them after saving."
+              multiline
+              minRows={8}
+              fullWidth
+              required
+              slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+            />
+            {saveError && <Alert severity="error">{saveError}</Alert>}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !publicKey.trim()}
+            startIcon={saving ? <CircularProgress size={20} /> : null}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={deleting !== null} onClose={() => setDeleting(null)}>
+        <DialogTitle>Delete Printer Vendor</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Delete {deleting?.name}? New exports can no longer be encrypted to their key.
+            Files already exported for them are not affected.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleting(null)}>Cancel</Button>
+          <Button onClick={handleDelete} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PrinterVendorsPage;
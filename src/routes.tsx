@@ -12,6 +12,11 @@ import { useAuth } from './contexts/AuthContext';
 import BatchGeneratorPage from './pages/BatchGeneratorPage';
 import BatchManagementPage from './pages/BatchManagementPage';
 import BatchDetailsPage from './pages/BatchDetailsPage';
+import ExportHistoryPage from './pages/ExportHistoryPage';
+import PrinterVendorsPage from './pages/PrinterVendorsPage';
+import ExportVerifyPage from './pages/ExportVerifyPage';
+import CodePage from './pages/CodePage';
+import DisableCodesPage from './pages/DisableCodesPage';
 
 interface ProtectedRouteProps {
   children: React.ReactElement;
@@ -75,6 +80,16 @@ const AppRoutes: React.FC = () => {
         }
       />
       
+      {/* Disable or re-enable a list of codes or a batch's codes */}
+      <Route
+        path="/codes/batches/disable-codes"
+        element={
+          <ProtectedRoute allowedRoles={['superadmin', 'admin', 'editor']}>
+            <DisableCodesPage />
+          </ProtectedRoute>
+        }
+      />
+      
       <Route
         path="/codes/batches/:batchId"
         element={
@@ -84,6 +99,54 @@ const AppRoutes: React.FC = () => {
         }
       />
       
+      {/* Export history - globally and per batch */}
+      <Route
+        path="/codes/exports"
+        element={
+          <ProtectedRoute allowedRoles={['superadmin', 'admin', 'editor', 'viewer']}>
+            <ExportHistoryPage />
+          </ProtectedRoute>
+        }
+      />
+      
+      <Route
+        path="/codes/exports/verify"
+        element={
+          <ProtectedRoute allowedRoles={['superadmin', 'admin', 'editor', 'viewer']}>
+            <ExportVerifyPage />
+          </ProtectedRoute>
+        }
+      />
+      
+      <Route
+        path="/codes/batches/:batchId/exports"
+        element={
+          <ProtectedRoute allowedRoles={['superadmin', 'admin', 'editor', 'viewer']}>
+            <ExportHistoryPage />
+          </ProtectedRoute>
+        }
+      />
+      
+      {/* Printer vendor keys for encrypted exports */}
+      <Route
+        path="/codes/printer-vendors"
+        element={
+          <ProtectedRoute allowedRoles={['superadmin', 'admin']}>
+            <PrinterVendorsPage />
+          </ProtectedRoute>
+        }
+      />
+      
+      {/* Single code - reached from the code search in the header */}
+      <Route
+        path="/codes/:code"
+        element={
+          <ProtectedRoute allowedRoles={['superadmin', 'admin', 'editor', 'viewer']}>
+            <CodePage />
+          </ProtectedRoute>
+        }
+      />
+      
       {/* Dashboard route - accessible to all admin roles */}
       <Route
         path="/"
@@ -10,17 +10,126 @@ import {
   orderBy, 
   limit,
   startAfter,
-  deleteDoc,
+  onSnapshot,
+  getCountFromServer,
 } from 'firebase/firestore';
+import type { Unsubscribe } from 'firebase/firestore';
 import { auth, db, functions } from '../firebase';
 import { httpsCallable } from 'firebase/functions';
-import type { StickerBatchWithId, StickerCodeWithId } from '../types/DatabaseTypes';
+import type { 
+  BatchStatus, 
+  CodeCounts, 
+  CodeStatus, 
+  GlobalCounters, 
+  StickerBatch, 
+  StickerBatchWithId, 
+  StickerCodeWithId 
+} from '../types/DatabaseTypes';
 import { getIdToken } from 'firebase/auth';
+import { GENERATION_STALE_AFTER_MS } from '../../functions/shared/codeGeneration.mjs';
+import type { StickerSheetOptions } from '../../functions/shared/stickerSheets.mjs';
+import type { ExportOptionsInput } from '../../functions/shared/codeExports.mjs';
+import { CODE_STATUSES } from '../../functions/shared/codeLifecycle.mjs';
+import { globalCounterShardsRef, globalCountersRef } from '../utils/counterUtils';
+
+const BATCH_STATUSES: BatchStatus[] = ['generating', 'completed', 'failed', 'archived', 'deleting'];
+// Statuses listed outside the trash, and in it
+const ACTIVE_BATCH_STATUSES: BatchStatus[] = ['generating', 'completed', 'failed'];
+const TRASH_BATCH_STATUSES: BatchStatus[] = ['archived', 'deleting'];
+
+/**
+ * Number of codes per status, with the total
+ */
+export type CodeStatusCounts = Record<CodeStatus, number> & { total: number };
+
+/**
+ * Result of the exportCodes Cloud Function
+ */
+export interface ExportCodesResult {
+  downloadUrl: string;
+  fileName: string;
+  codeCount: number;
+  exportId: string;
+  password?: string; // Only for password-protected ZIP exports; shown once, never stored
+}
+
+/**
+ * Bulk code operations: disable, re-enable (back to assigned or available),
+ * and reset to available (dropping any assignment)
+ */
+export type BulkCodeOperation = 'disable' | 'enable' | 'reset';
+
+/**
+ * Codes a bulk operation applies to: picked codes, or all codes of the
+ * batch matching the status filter
+ */
+export type BulkCodeSelection =
+  | { codes: string[] }
+  | { allMatching: true; status?: CodeStatus };
+
+/**
+ * Result of the bulkUpdateCodes Cloud Function
+ */
+export interface BulkUpdateCodesResult {
+  updated: number;
+  unchanged: number; // Already in the resulting state
+  failedCount: number; // Including codes the lifecycle does not allow the change for
+  failed: { code: string; reason: string }[]; // The first failures only
+  completed: boolean; // False when it stopped at its time budget
+}
+
+/**
+ * Outcome for one code of a disable / re-enable run
+ */
+export type CodeDisableResult =
+  | 'disabled'
+  | 'enabled'
+  | 'unchanged'
+  | 'invalid'    // Failed validateCodeFormat
+  | 'duplicate'  // Listed more than once
+  | 'not-found'
+  | 'locked'     // Its batch is generating or in the trash
+  | 'rejected'   // Not allowed by the code lifecycle (e.g. a retired code)
+  | 'failed';
+
+/**
+ * Codes a disable / re-enable run applies to: a list of codes from any
+ * batches, or all codes of a batch matching a status filter
+ */
+export type CodeDisableTarget =
+  | { codes: string[] }
+  | { batchId: string; status?: CodeStatus };
+
+/**
+ * Result of the setCodesDisabled Cloud Function
+ */
+export interface SetCodesDisabledResult {
+  counts: Partial<Record<CodeDisableResult, number>>;
+  report: { code: string; result: CodeDisableResult; message: string }[];
+  reportTruncated: boolean; // The report lists the first codes only; counts cover all
+  completed: boolean; // False when it stopped at its time budget
+}
 
 /**
  * Service for managing sticker batches
  */
 export class BatchService {
+  /**
+   * Status filter for batch lists
+   * 
+   * @param status Only batches with this status
+   * @param inTrash Only batches in the trash
+   * @returns Query constraint
+   */
+  private static statusConstraint(status: string | undefined, inTrash: boolean) {
+    if (inTrash) {
+      return where('status', 'in', TRASH_BATCH_STATUSES);
+    }
+    return status
+      ? where('status', '==', status)
+      : where('status', 'in', ACTIVE_BATCH_STATUSES);
+  }
+  
   /**
    * Get all batches with pagination
    * 
@@ -32,6 +141,7 @@ export class BatchService {
     startAfterDoc?: any;
     status?: string;
     createdBy?: string;
+    inTrash?: boolean; // List the trash instead (status is ignored)
   } = {}): Promise<{
     batches: StickerBatchWithId[];
     hasMore: boolean;
@@ -42,7 +152,8 @@ export class BatchService {
         pageSize = 10, 
         startAfterDoc = null, 
         status, 
-        createdBy 
+        createdBy,
+        inTrash = false
       } = options;
       
       const batchesRef = collection(db, 'stickerBatches');
@@ -51,10 +162,8 @@ export class BatchService {
         orderBy('createdAt', 'desc')
       );
       
-      // Apply filters if provided
-      if (status) {
-        batchQuery = query(batchQuery, where('status', '==', status));
-      }
+      // Apply filters if provided; batches in the trash only show when asked for
+      batchQuery = query(batchQuery, BatchService.statusConstraint(status, inTrash));
       
       if (createdBy) {
         batchQuery = query(batchQuery, where('createdBy', '==', createdBy));
@@ -99,6 +208,87 @@ export class BatchService {
     }
   }
   
+  /**
+   * Subscribe to the most recent batches (live updates)
+   * 
+   * @param options Filtering options and how many batches to watch
+   * @param onChange Called with the batches on every change
+   * @param onError Called if the subscription fails
+   * @returns Function that stops the subscription
+   */
+  static subscribeToBatches(
+    options: {
+      pageSize?: number;
+      status?: string;
+      createdBy?: string;
+      inTrash?: boolean; // List the trash instead (status is ignored)
+    },
+    onChange: (result: { batches: StickerBatchWithId[]; hasMore: boolean }) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const { pageSize = 10, status, createdBy, inTrash = false } = options;
+    
+    let batchQuery = query(
+      collection(db, 'stickerBatches'),
+      orderBy('createdAt', 'desc')
+    );
+    
+    // Apply filters if provided; batches in the trash only show when asked for
+    batchQuery = query(batchQuery, BatchService.statusConstraint(status, inTrash));
+    
+    if (createdBy) {
+      batchQuery = query(batchQuery, where('createdBy', '==', createdBy));
+    }
+    
+    // Apply limit + 1 to check if there are more results
+    batchQuery = query(batchQuery, limit(pageSize + 1));
+    
+    return onSnapshot(
+      batchQuery,
+      (snapshot) => {
+        const batches = snapshot.docs
+          .slice(0, pageSize)
+          .map(batchDoc => ({
+            id: batchDoc.id,
+            ...batchDoc.data()
+          } as StickerBatchWithId));
+        
+        onChange({ batches, hasMore: snapshot.size > pageSize });
+      },
+      (error) => {
+        console.error('Error subscribing to batches:', error);
+        onError?.(error);
+      }
+    );
+  }
+  
+  /**
+   * Subscribe to a batch (live updates)
+   * 
+   * @param batchId The batch ID
+   * @param onChange Called with the batch, or null once it no longer exists
+   * @param onError Called if the subscription fails
+   * @returns Function that stops the subscription
+   */
+  static subscribeToBatch(
+    batchId: string,
+    onChange: (batch: StickerBatchWithId | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      doc(db, 'stickerBatches', batchId),
+      (batchDoc) => {
+        onChange(batchDoc.exists()
+          ? { id: batchDoc.id, ...batchDoc.data() } as StickerBatchWithId
+          : null);
+      },
+      (error) => {
+        console.error('Error subscribing to batch:', error);
+        onError?.(error);
+      }
+    );
+  }
+  
   /**
    * Get a batch by ID
    * 
@@ -124,6 +314,61 @@ export class BatchService {
     }
   }
   
+  /**
+   * Check whether a batch can be resumed: it failed, or it is still
+   * generating but neither its job nor its checkpoint has moved recently
+   * (the job was lost or the run was killed)
+   * 
+   * @param batch The batch
+   * @returns Whether Resume should be offered
+   */
+  static isBatchResumable(batch: StickerBatch): boolean {
+    if (batch.status === 'failed') {
+      return true;
+    }
+    
+    if (batch.status !== 'generating') {
+      return false;
+    }
+    
+    const lastActivity = Math.max(
+      batch.generationHeartbeatAt?.toMillis() || 0,
+      batch.generationJob?.updatedAt?.toMillis() || 0,
+      batch.createdAt?.toMillis() || 0
+    );
+    return Date.now() - lastActivity > GENERATION_STALE_AFTER_MS;
+  }
+  
+  /**
+   * Queue a new generation job for a stuck or failed batch; it continues
+   * from the batch's checkpoint
+   * 
+   * @param batchId The batch ID
+   * @returns The queued job ID
+   */
+  static async resumeBatch(
+    batchId: string
+  ): Promise<{ success: boolean; jobId: string }> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const resumeBatchFn = httpsCallable<
+        { batchId: string },
+        { success: boolean; jobId: string }
+      >(functions, 'resumeCodeBatch');
+
+      const result = await resumeBatchFn({ batchId });
+      return result.data;
+    } catch (error: unknown) {
+      console.error('Error resuming batch:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to resume batch');
+    }
+  }
+  
   /**
    * Get codes from a batch with pagination
    * 
@@ -209,12 +454,11 @@ export class BatchService {
  */
   static async exportCodes(
     batchId: string,
-    options: {
-      format?: 'csv' | 'json' | 'excel';
-      includeStatus?: boolean;
+    options: ExportOptionsInput & {
+      sheet?: StickerSheetOptions; // Label sheet layout for the 'pdf' format
     } = {}
-  ): Promise<{ downloadUrl: string; fileName: string; codeCount: number }> {
-    const { format = 'csv', includeStatus = true } = options;
+  ): Promise<ExportCodesResult> {
+    const { format = 'csv', includeStatus = true, ...filters } = options;
 
     try {
       // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
@@ -225,17 +469,29 @@ export class BatchService {
 
       // Use the imported functions instance
       const exportCodesFn = httpsCallable<
-        { batchId: string; format: string; includeStatus: boolean },
-        { downloadUrl: string; fileName: string; codeCount: number }
-      >(functions, 'exportCodes');
+        ExportOptionsInput & { batchId: string; sheet?: StickerSheetOptions },
+        ExportCodesResult
+      >(functions, 'exportCodes', { timeout: 300 * 1000 }); // Matches the function timeout
 
       // Call the Cloud Function
       const result = await exportCodesFn({
         batchId,
         format,
         includeStatus,
+        ...filters,
       });
 
+      // The ZIP password is not stored: confirm it arrived, or the export
+      // is failed and its file deleted by the retention cleanup
+      if (result.data.password) {
+        const confirmExportPasswordFn = httpsCallable<
+          { exportId: string },
+          { success: boolean }
+        >(functions, 'confirmExportPassword');
+        await confirmExportPasswordFn({ exportId: result.data.exportId }).catch(confirmError =>
+          console.error('Error confirming export password:', confirmError));
+      }
+
       return result.data;
     } catch (error: any) {
       console.error('Error exporting codes:', error);
@@ -247,116 +503,302 @@ export class BatchService {
   }
   
   /**
- * Delete a batch and all its codes
- * 
- * @param batchId The batch ID
- * @returns Success status
- */
+   * Move a batch to the trash. It is purged with its codes after the trash
+   * period unless restored. Refused when codes are assigned, unless forced.
+   *
+   * @param batchId The batch ID
+   * @param options force: delete even though codes are assigned to users
+   * @returns Success status; assignedCount is set when refused for assigned codes
+   */
   static async deleteBatch(
-    batchId: string
-  ): Promise<{ success: boolean; message: string }> {
+    batchId: string,
+    options: { force?: boolean } = {}
+  ): Promise<{ success: boolean; message: string; assignedCount?: number }> {
     try {
-      // Check if the batch exists
-      const batchRef = doc(db, 'stickerBatches', batchId);
-      const batchDoc = await getDoc(batchRef);
-      if (!batchDoc.exists()) {
-        return { success: false, message: 'Batch not found' };
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
       }
+      // ────────────────────────────────────────────────────────────────
 
-      // Check if batch has any codes
-      const codesRef = collection(db, 'stickerCodes');
-      const codesQuery = query(
-        codesRef,
-        where('batchId', '==', batchId),
-        limit(1)
-      );
-      const codesSnapshot = await getDocs(codesQuery);
-
-      if (!codesSnapshot.empty) {
-        // ─── FORCE-REFRESH the Firebase ID token ─────────────────────
-        if (auth.currentUser) {
-          await getIdToken(auth.currentUser, /* forceRefresh= */ true);
-        }
-        // ─────────────────────────────────────────────────────────────
-
-        // Batch has codes → call the deleteBatch Cloud Function
-        const deleteBatchFn = httpsCallable<
-          { batchId: string },
-          { success: boolean; message: string }
-        >(functions, 'deleteBatch');
-
-        const result = await deleteBatchFn({ batchId });
-        return result.data;
-      } else {
-        // No codes → safe to delete directly in Firestore
-        await deleteDoc(batchRef);
-        return { success: true, message: 'Batch deleted successfully' };
-      }
+      const deleteBatchFn = httpsCallable<
+        { batchId: string; force: boolean },
+        { success: boolean; message: string }
+      >(functions, 'deleteBatch');
+
+      const result = await deleteBatchFn({ batchId, force: options.force === true });
+      return result.data;
     } catch (error: any) {
       console.error('Error deleting batch:', error);
       return {
         success: false,
         message: error.message || 'Failed to delete batch',
+        assignedCount: error.details?.assignedCount,
       };
     }
   }
+
+  /**
+   * Permanently delete a batch in the trash and all its codes. Large batches
+   * keep being deleted in the background; progress shows on the batch.
+   *
+   * @param batchId The batch ID
+   * @returns Whether deletion finished, and a message
+   */
+  static async purgeBatch(
+    batchId: string
+  ): Promise<{ completed: boolean; message: string }> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const purgeBatchFn = httpsCallable<
+        { batchId: string },
+        { success: boolean; completed: boolean; message: string }
+      >(functions, 'purgeBatch', { timeout: 300 * 1000 }); // Matches the function timeout
+
+      const result = await purgeBatchFn({ batchId });
+      return { completed: result.data.completed, message: result.data.message };
+    } catch (error: unknown) {
+      console.error('Error purging batch:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to delete batch');
+    }
+  }
+
+  /**
+   * Restore a batch from the trash to the status it had when deleted
+   *
+   * @param batchId The batch ID
+   */
+  static async restoreBatch(batchId: string): Promise<void> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const restoreBatchFn = httpsCallable<
+        { batchId: string },
+        { success: boolean; status: BatchStatus }
+      >(functions, 'restoreBatch');
+
+      await restoreBatchFn({ batchId });
+    } catch (error: unknown) {
+      console.error('Error restoring batch:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to restore batch');
+    }
+  }
+
+  /**
+   * Disable, re-enable or reset many codes of a batch. Runs server-side in
+   * chunks; codes that fail are reported without stopping the rest.
+   *
+   * @param batchId The batch ID
+   * @param operation The operation to apply
+   * @param selection Picked codes, or all codes matching a status filter
+   * @param reason Reason for the change; resetting assigned codes needs one
+   * @returns Counts of updated, unchanged and failed codes
+   */
+  static async bulkUpdateCodes(
+    batchId: string,
+    operation: BulkCodeOperation,
+    selection: BulkCodeSelection,
+    reason = ''
+  ): Promise<BulkUpdateCodesResult> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const bulkUpdateCodesFn = httpsCallable<
+        BulkCodeSelection & { batchId: string; operation: BulkCodeOperation; reason: string },
+        BulkUpdateCodesResult
+      >(functions, 'bulkUpdateCodes', { timeout: 300 * 1000 }); // Matches the function timeout
+
+      const result = await bulkUpdateCodesFn({ batchId, operation, reason, ...selection });
+      return result.data;
+    } catch (error: unknown) {
+      console.error('Error updating codes:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to update codes');
+    }
+  }
+
+  /**
+   * Disable codes with a reason, or re-enable them, e.g. every code of a
+   * damaged or stolen printer roll. Returns a report line per code.
+   *
+   * @param target Listed codes, or a batch and status filter
+   * @param action Disable or re-enable
+   * @param reason Why the codes are disabled (required to disable)
+   * @returns Per-result counts and the per-code report
+   */
+  static async setCodesDisabled(
+    target: CodeDisableTarget,
+    action: 'disable' | 'enable',
+    reason = ''
+  ): Promise<SetCodesDisabledResult> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const setCodesDisabledFn = httpsCallable<
+        CodeDisableTarget & { action: 'disable' | 'enable'; reason: string },
+        SetCodesDisabledResult
+      >(functions, 'setCodesDisabled', { timeout: 300 * 1000 }); // Matches the function timeout
+
+      const result = await setCodesDisabledFn({ ...target, action, reason });
+      return result.data;
+    } catch (error: unknown) {
+      console.error('Error disabling codes:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to update codes');
+    }
+  }
+  
+  /**
+   * Total codes from stored per-status counts
+   * 
+   * @param counts Stored code counts
+   * @returns Counts of codes by status, with the total
+   */
+  static totalCodeCounts(counts: CodeCounts): CodeStatusCounts {
+    const totals = { total: 0 } as CodeStatusCounts;
+    
+    for (const status of CODE_STATUSES) {
+      totals[status] = counts[status] || 0;
+      totals.total += totals[status];
+    }
+    
+    return totals;
+  }
   
   /**
    * Count codes in a batch by status
    * 
+   * Reads the counters stored on the batch; batches created before stored
+   * counters fall back to server-side aggregate counts.
+   * 
    * @param batchId The batch ID
    * @returns Counts of codes by status
    */
-  static async getCodeCountsByStatus(batchId: string): Promise<{
-    available: number;
-    assigned: number;
-    disabled: number;
-    total: number;
-  }> {
+  static async getCodeCountsByStatus(batchId: string): Promise<CodeStatusCounts> {
     try {
-      // For large batches, this may be inefficient
-      // In a production environment, consider using a counter or Cloud Function
-      const codesRef = collection(db, 'stickerCodes');
-      const codesQuery = query(
-        codesRef,
-        where('batchId', '==', batchId)
-      );
+      const batchDoc = await getDoc(doc(db, 'stickerBatches', batchId));
+      const storedCounts = batchDoc.exists() 
+        ? (batchDoc.data() as StickerBatch).codeCounts 
+        : undefined;
       
-      const snapshot = await getDocs(codesQuery);
+      if (storedCounts) {
+        return BatchService.totalCodeCounts(storedCounts);
+      }
       
-      let available = 0;
-      let assigned = 0;
-      let disabled = 0;
+      const codesRef = collection(db, 'stickerCodes');
+      const counts: CodeCounts = {};
       
-      snapshot.forEach(doc => {
-        const data = doc.data();
-        switch (data.status) {
-          case 'available':
-            available++;
-            break;
-          case 'assigned':
-            assigned++;
-            break;
-          case 'disabled':
-            disabled++;
-            break;
-        }
-      });
+      for (const status of CODE_STATUSES) {
+        const snapshot = await getCountFromServer(query(
+          codesRef,
+          where('batchId', '==', batchId),
+          where('status', '==', status)
+        ));
+        counts[status] = snapshot.data().count;
+      }
       
-      return {
-        available,
-        assigned,
-        disabled,
-        total: snapshot.size
-      };
+      return BatchService.totalCodeCounts(counts);
     } catch (error) {
       console.error('Error getting code counts:', error);
+      return BatchService.totalCodeCounts({});
+    }
+  }
+  
+  /**
+   * Recount the stored counters (recountCounters Cloud Function): backfills
+   * the code counts of batches from before stored counters and sets the
+   * global counters baseline
+   * 
+   * @returns Batches backfilled and whether the recount finished
+   */
+  static async recountCounters(): Promise<{ backfilled: number; remaining: number; completed: boolean }> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+      
+      const recountCountersFn = httpsCallable<
+        Record<string, never>,
+        { backfilled: number; remaining: number; completed: boolean }
+      >(functions, 'recountCounters', { timeout: 300 * 1000 }); // Matches the function timeout
+      
+      const result = await recountCountersFn({});
+      return result.data;
+    } catch (error: unknown) {
+      console.error('Error recounting counters:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to recount counters');
+    }
+  }
+  
+  /**
+   * Get batch totals by status
+   * 
+   * Reads the global counters (baseline plus shards) once they have been
+   * recounted; until then falls back to server-side aggregate counts.
+   * 
+   * @returns Number of batches in total and per status
+   */
+  static async getBatchStats(): Promise<{
+    total: number; // Batches outside the trash
+    generating: number;
+    completed: number;
+    failed: number;
+    archived: number; // Batches in the trash, including those being deleted
+  }> {
+    const countersDoc = await getDoc(globalCountersRef());
+    const baseline = countersDoc.exists() ? countersDoc.data() as GlobalCounters : undefined;
+    
+    if (baseline?.initializedAt) {
+      const batches = { ...baseline.batches };
+      const shardsSnapshot = await getDocs(globalCounterShardsRef());
+      shardsSnapshot.docs.forEach(shardDoc => {
+        const shard = shardDoc.data() as GlobalCounters;
+        Object.entries(shard.batches || {}).forEach(([key, delta]) => {
+          const status = key as keyof typeof batches;
+          batches[status] = (batches[status] || 0) + (delta || 0);
+        });
+      });
+      
       return {
-        available: 0,
-        assigned: 0,
-        disabled: 0,
-        total: 0
+        total: (batches.total || 0) - (batches.archived || 0) - (batches.deleting || 0),
+        generating: batches.generating || 0,
+        completed: batches.completed || 0,
+        failed: batches.failed || 0,
+        archived: (batches.archived || 0) + (batches.deleting || 0)
       };
     }
+    
+    const batchesRef = collection(db, 'stickerBatches');
+    const stats = { total: 0, generating: 0, completed: 0, failed: 0, archived: 0 };
+    
+    for (const status of BATCH_STATUSES) {
+      const snapshot = await getCountFromServer(query(batchesRef, where('status', '==', status)));
+      const count = snapshot.data().count;
+      if (TRASH_BATCH_STATUSES.includes(status)) {
+        stats.archived += count;
+      } else {
+        stats[status as 'generating' | 'completed' | 'failed'] = count;
+        stats.total += count;
+      }
+    }
+    
+    return stats;
   }
-}
\ No newline at end of file
+}
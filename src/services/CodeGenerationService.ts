@@ -3,73 +3,121 @@
 import { 
     collection, 
     doc, 
-    setDoc, 
     getDocs, 
     getDoc, 
     query, 
     where, 
     Timestamp, 
-    writeBatch, 
-    increment,
-    updateDoc,
-    limit 
+    limit,
+    orderBy,
+    startAt,
+    endAt,
+    documentId,
+    writeBatch 
   } from 'firebase/firestore';
   import { httpsCallable } from 'firebase/functions';
-  import { db, functions } from '../firebase';
+  import { getIdToken } from 'firebase/auth';
+  import { auth, db, functions } from '../firebase';
+  import { 
+    batchStatusCounterData, 
+    globalCounterShardRef 
+  } from '../utils/counterUtils';
+  import { CURRENT_CHECK_DIGIT_VERSION } from '../../functions/shared/codeGeneration.mjs';
+  import type { KeyspaceCapacityCheck } from '../../functions/shared/codeGeneration.mjs';
   import type { 
     StickerBatch, 
     StickerBatchWithId, 
-    StickerCode, 
-    CodeStatus 
+    CodeHistoryEventWithId,
+    CodeStatus,
+    GenerationJob,
+    StickerCodeWithId
   } from '../types/DatabaseTypes';
   
   /**
-   * Configuration for code generation
+   * Keyspace capacity for a prefix/length pair, checked against the
+   * collision threshold configured for the Cloud Functions
    */
-  const ALLOWED_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Removed I, O, 0, 1 to avoid confusion
-  const BATCH_SIZE = 100; // Number of codes to write in a single batch operation
+  export type KeyspaceCapacityEstimate = KeyspaceCapacityCheck;
   
   /**
    * Service for managing sticker code generation
    */
   export class CodeGenerationService {
     /**
-     * Creates a new batch and initializes generation
+     * Creates a new batch and queues its generation job
      * 
      * @param batchData The batch configuration data
      * @returns The created batch ID and status
      */
     static async createBatch(batchData: Omit<StickerBatch, 'status' | 'createdAt' | 'completedAt' | 'generatedCount'>): Promise<{ batchId: string; status: string }> {
+      // Refuse batches that would crowd the prefix keyspace; the generation
+      // job checks again and fails the batch if it no longer fits
+      const capacity = await this.getKeyspaceCapacity(
+        batchData.prefix, 
+        batchData.codeLength, 
+        batchData.quantity
+      );
+      if (!capacity.allowed) {
+        throw new Error(
+          `This batch would fill ${(capacity.collisionProbability * 100).toFixed(2)}% of the ` +
+          `${batchData.prefix} keyspace for ${batchData.codeLength}-character codes ` +
+          `(limit ${(capacity.maxCollisionProbability * 100).toFixed(2)}%). ` +
+          'Use a longer code length or a different prefix.'
+        );
+      }
+      
       try {
-        // Create a new document reference with auto-generated ID
-        const batchesRef = collection(db, 'stickerBatches');
-        const newBatchRef = doc(batchesRef);
+        // Create new document references with auto-generated IDs
+        const newBatchRef = doc(collection(db, 'stickerBatches'));
+        const jobRef = doc(collection(db, 'generationJobs'));
+        const now = Timestamp.now();
+        
+        // Every batch is generated server-side by the generationJobs worker
+        const job: GenerationJob = {
+          batchId: newBatchRef.id,
+          status: 'queued',
+          attempts: 0,
+          failures: 0,
+          lastError: null,
+          createdBy: batchData.createdBy,
+          createdAt: now,
+          startedAt: null,
+          finishedAt: null,
+          updatedAt: now
+        };
         
         // Prepare the batch data with initial values
         const batch: StickerBatch = {
           ...batchData,
           status: 'generating',
-          createdAt: Timestamp.now(),
+          createdAt: now,
           completedAt: null,
-          generatedCount: 0
+          generatedCount: 0,
+          codeCounts: { available: 0, assigned: 0, disabled: 0 },
+          generationJob: {
+            id: jobRef.id,
+            status: job.status,
+            attempts: job.attempts,
+            lastError: job.lastError,
+            createdAt: now,
+            startedAt: null,
+            finishedAt: null,
+            updatedAt: now
+          }
         };
         
-        // Write the batch document
-        await setDoc(newBatchRef, batch);
-        
-        // Start generation process
-        // For small batches (< 500), do it directly in client
-        // For larger batches, call cloud function
-        if (batchData.quantity <= 500) {
-          this.generateCodes(newBatchRef.id, batch)
-            .catch(err => console.error('Error generating codes:', err));
-        } else {
-          // Use the imported functions instance
-          const generateBatchFn = httpsCallable(functions, 'generateCodeBatch');
-          generateBatchFn({ batchId: newBatchRef.id })
-            .catch(err => console.error('Error calling generateCodeBatch:', err));
+        // New check digit batches always use the current algorithm
+        if (batch.includeCheckDigit) {
+          batch.checkDigitVersion = CURRENT_CHECK_DIGIT_VERSION;
         }
         
+        // Write the batch and queue its job together
+        const writeBatchOp = writeBatch(db);
+        writeBatchOp.set(newBatchRef, batch);
+        writeBatchOp.set(jobRef, job);
+        writeBatchOp.set(globalCounterShardRef(), batchStatusCounterData(null, 'generating'), { merge: true });
+        await writeBatchOp.commit();
+        
         return { batchId: newBatchRef.id, status: 'generating' };
       } catch (error) {
         console.error('Error creating batch:', error);
@@ -78,138 +126,37 @@ import {
     }
     
     /**
-     * Generate codes for a batch (client-side implementation for smaller batches)
+     * Estimate the remaining keyspace for a prefix/length pair
      * 
-     * @param batchId The batch ID
-     * @param batchData The batch data
-     */
-    static async generateCodes(batchId: string, batchData: StickerBatch): Promise<void> {
-      try {
-        const { prefix, codeLength, quantity } = batchData;
-        let generatedCount = 0;
-        
-        // Process in smaller batches to avoid Firestore write limits
-        for (let i = 0; i < quantity; i += BATCH_SIZE) {
-          // Calculate the actual batch size (may be smaller for the last batch)
-          const currentBatchSize = Math.min(BATCH_SIZE, quantity - i);
-          
-          // Generate codes for this batch
-          const codes = await this.generateUniqueCodesForBatch(
-            prefix, 
-            codeLength, 
-            currentBatchSize
-          );
-          
-          // Write to Firestore in a batch
-          const writeBatchOp = writeBatch(db);
-          
-          for (const code of codes) {
-            const codeRef = doc(db, 'stickerCodes', code);
-            const codeData: StickerCode = {
-              batchId,
-              status: 'available',
-              createdAt: Timestamp.now(),
-              productType: batchData.productType
-            };
-            
-            if (batchData.expirationDate) {
-              codeData.expirationDate = batchData.expirationDate;
-            }
-            
-            writeBatchOp.set(codeRef, codeData);
-          }
-          
-          // Commit the batch write
-          await writeBatchOp.commit();
-          
-          // Update the batch document with progress
-          generatedCount += codes.length;
-          const batchRef = doc(db, 'stickerBatches', batchId);
-          await updateDoc(batchRef, {
-            generatedCount: increment(codes.length)
-          });
-        }
-        
-        // Mark the batch as completed
-        const batchRef = doc(db, 'stickerBatches', batchId);
-        await updateDoc(batchRef, {
-          status: 'completed',
-          completedAt: Timestamp.now(),
-          generatedCount
-        });
-        
-      } catch (error) {
-        console.error('Error generating codes:', error);
-        
-        // Mark the batch as failed
-        const batchRef = doc(db, 'stickerBatches', batchId);
-        await updateDoc(batchRef, {
-          status: 'failed'
-        });
-        
-        throw error;
-      }
-    }
-    
-    /**
-     * Generate a set of unique codes for a batch
+     * Runs in the getKeyspaceCapacity Cloud Function, which holds the
+     * configured collision threshold. Codes already issued are taken from
+     * existing batches with the same prefix and code length: generating
+     * batches count their full quantity (reserved), others their generated
+     * count.
      * 
      * @param prefix The code prefix
      * @param codeLength The length of the random part
-     * @param count The number of codes to generate
-     * @returns Array of unique codes
+     * @param quantity The number of codes the new batch would add
+     * @returns Capacity estimate and whether the batch is within the threshold
      */
-    static async generateUniqueCodesForBatch(
-      prefix: string, 
-      codeLength: number, 
-      count: number
-    ): Promise<string[]> {
-      const codes: Set<string> = new Set();
-      const existingCodes: Set<string> = new Set();
-      
-      // Fetch existing codes with this prefix to avoid duplicates
-      const codesRef = collection(db, 'stickerCodes');
-      const prefixQuery = query(
-        codesRef, 
-        where('__name__', '>=', prefix),
-        where('__name__', '<=', prefix + '\uf8ff'),
-        limit(10000) // Firestore limit
-      );
-      
-      const snapshot = await getDocs(prefixQuery);
-      snapshot.forEach(doc => {
-        existingCodes.add(doc.id);
-      });
-      
-      // Generate unique codes
-      while (codes.size < count) {
-        const randomPart = this.generateRandomString(codeLength);
-        const fullCode = `${prefix}${randomPart}`;
-        
-        // Check if code already exists in Firestore or in our current batch
-        if (!existingCodes.has(fullCode) && !codes.has(fullCode)) {
-          codes.add(fullCode);
-        }
+    static async getKeyspaceCapacity(
+      prefix: string,
+      codeLength: number,
+      quantity: number
+    ): Promise<KeyspaceCapacityEstimate> {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
       }
+      // ────────────────────────────────────────────────────────────────
       
-      return Array.from(codes);
-    }
-    
-    /**
-     * Generate a random string for the code
-     * 
-     * @param length The length of the random string
-     * @returns Random string
-     */
-    static generateRandomString(length: number): string {
-      let result = '';
-      const charsLength = ALLOWED_CHARS.length;
-      
-      for (let i = 0; i < length; i++) {
-        result += ALLOWED_CHARS.charAt(Math.floor(Math.random() * charsLength));
-      }
+      const getKeyspaceCapacityFn = httpsCallable<
+        { prefix: string; codeLength: number; quantity: number },
+        KeyspaceCapacityEstimate
+      >(functions, 'getKeyspaceCapacity');
       
-      return result;
+      const result = await getKeyspaceCapacityFn({ prefix, codeLength, quantity });
+      return result.data;
     }
     
     /**
@@ -279,38 +226,194 @@ import {
     }
     
     /**
-     * Update a code's status
+     * Get a single code
+     * 
+     * @param code The code (document ID)
+     * @returns The code or null if not found
+     */
+    static async getCode(code: string): Promise<StickerCodeWithId | null> {
+      try {
+        const codeDoc = await getDoc(doc(db, 'stickerCodes', code));
+        
+        if (!codeDoc.exists()) {
+          return null;
+        }
+        
+        return {
+          id: codeDoc.id,
+          ...codeDoc.data()
+        } as StickerCodeWithId;
+      } catch (error) {
+        console.error('Error getting code:', error);
+        return null;
+      }
+    }
+    
+    /**
+     * Get a code's history (stickerCodes/{code}/history), newest first
+     * 
+     * @param code The code (document ID)
+     * @param maxEvents Maximum number of events returned
+     * @returns History events
+     */
+    static async getCodeHistory(code: string, maxEvents = 100): Promise<CodeHistoryEventWithId[]> {
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, 'stickerCodes', code, 'history'),
+          orderBy('changedAt', 'desc'),
+          limit(maxEvents)
+        ));
+        
+        return snapshot.docs.map(eventDoc => ({
+          id: eventDoc.id,
+          ...eventDoc.data()
+        } as CodeHistoryEventWithId));
+      } catch (error) {
+        console.error('Error getting code history:', error);
+        return [];
+      }
+    }
+    
+    /**
+     * Search codes across all batches: the exact code first, then codes
+     * starting with the search term, in code order
+     * 
+     * @param term Code or code prefix (case-insensitive)
+     * @param maxResults Maximum number of codes returned
+     * @returns Matching codes
+     */
+    static async searchCodes(term: string, maxResults = 10): Promise<StickerCodeWithId[]> {
+      const prefix = term.trim().toUpperCase();
+      if (!prefix) {
+        return [];
+      }
+      
+      try {
+        // Codes are their document IDs, so a prefix is a document ID range
+        const snapshot = await getDocs(query(
+          collection(db, 'stickerCodes'),
+          orderBy(documentId()),
+          startAt(prefix),
+          endAt(prefix + '\uf8ff'),
+          limit(maxResults)
+        ));
+        
+        return snapshot.docs.map(codeDoc => ({
+          id: codeDoc.id,
+          ...codeDoc.data()
+        } as StickerCodeWithId));
+      } catch (error) {
+        console.error('Error searching codes:', error);
+        return [];
+      }
+    }
+    
+    /**
+     * Update a code's status. Runs in the updateCodeStatus Cloud Function,
+     * which checks the change against the code lifecycle transition table
+     * (functions/shared/codeLifecycle.mjs) and records it in the code's
+     * history: assigning needs a user ID, retiring needs a reason. Owners of
+     * assigned codes are changed with unassignCode and transferCode.
      * 
      * @param code The code to update
      * @param status The new status
-     * @param assignedTo Optional user ID if being assigned
+     * @param details User ID when assigning, reason when required
      * @returns Success flag and message
      */
     static async updateCodeStatus(
       code: string, 
       status: CodeStatus, 
-      assignedTo?: string
+      details: { assignedTo?: string; reason?: string } = {}
     ): Promise<{ success: boolean; message: string }> {
       try {
-        const codeRef = doc(db, 'stickerCodes', code);
-        const codeDoc = await getDoc(codeRef);
+        // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+        if (auth.currentUser) {
+          await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+        }
+        // ────────────────────────────────────────────────────────────────
         
-        if (!codeDoc.exists()) {
-          return { success: false, message: 'Code not found' };
+        const updateCodeStatusFn = httpsCallable<
+          { code: string; status: CodeStatus; assignedTo?: string; reason?: string },
+          { success: boolean; status: CodeStatus }
+        >(functions, 'updateCodeStatus');
+        
+        await updateCodeStatusFn({ code, status, ...details });
+        return { success: true, message: 'Code updated successfully' };
+      } catch (error: unknown) {
+        console.error('Error updating code:', error);
+        return { success: false, message: error instanceof Error ? error.message : 'Failed to update code' };
+      }
+    }
+    
+    /**
+     * Release an assigned code from its owner (e.g. the item was sold); the
+     * code goes back to available. Runs in the unassignCode Cloud Function,
+     * which records the history and sends the optional notification email.
+     * 
+     * @param code The code
+     * @param reason Why the code is released (required)
+     * @param notifyEmail Address to notify, if any
+     * @returns Success flag and message
+     */
+    static async unassignCode(
+      code: string,
+      reason: string,
+      notifyEmail = ''
+    ): Promise<{ success: boolean; message: string }> {
+      try {
+        // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+        if (auth.currentUser) {
+          await getIdToken(auth.currentUser, /* forceRefresh= */ true);
         }
+        // ────────────────────────────────────────────────────────────────
         
-        const updateData: any = { status };
+        const unassignCodeFn = httpsCallable<
+          { code: string; reason: string; notifyEmail: string },
+          { success: boolean; status: CodeStatus }
+        >(functions, 'unassignCode');
         
-        if (status === 'assigned' && assignedTo) {
-          updateData.assignedTo = assignedTo;
-          updateData.assignedAt = Timestamp.now();
+        await unassignCodeFn({ code, reason, notifyEmail });
+        return { success: true, message: `Code ${code} unassigned` };
+      } catch (error: unknown) {
+        console.error('Error unassigning code:', error);
+        return { success: false, message: error instanceof Error ? error.message : 'Failed to unassign code' };
+      }
+    }
+    
+    /**
+     * Transfer an assigned or activated code to another owner; the code
+     * keeps its status. Runs in the transferCode Cloud Function, which
+     * records the history and sends the optional notification email.
+     * 
+     * @param code The code
+     * @param toUserId User ID of the new owner
+     * @param reason Why the code is transferred (required)
+     * @param notifyEmail Address to notify, if any
+     * @returns Success flag and message
+     */
+    static async transferCode(
+      code: string,
+      toUserId: string,
+      reason: string,
+      notifyEmail = ''
+    ): Promise<{ success: boolean; message: string }> {
+      try {
+        // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+        if (auth.currentUser) {
+          await getIdToken(auth.currentUser, /* forceRefresh= */ true);
         }
+        // ────────────────────────────────────────────────────────────────
         
-        await updateDoc(codeRef, updateData);
-        return { success: true, message: 'Code updated successfully' };
-      } catch (error) {
-        console.error('Error updating code:', error);
-        return { success: false, message: 'Failed to update code' };
+        const transferCodeFn = httpsCallable<
+          { code: string; toUserId: string; reason: string; notifyEmail: string },
+          { success: boolean; status: CodeStatus }
+        >(functions, 'transferCode');
+        
+        await transferCodeFn({ code, toUserId, reason, notifyEmail });
+        return { success: true, message: `Code ${code} transferred to ${toUserId}` };
+      } catch (error: unknown) {
+        console.error('Error transferring code:', error);
+        return { success: false, message: error instanceof Error ? error.message : 'Failed to transfer code' };
       }
     }
   }
\ No newline at end of file
@@ -0,0 +1,187 @@
+// src/services/ExportService.ts
+
+import {
+  collection,
+  doc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+} from 'firebase/firestore';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { auth, db, functions } from '../firebase';
+import { httpsCallable } from 'firebase/functions';
+import { getIdToken } from 'firebase/auth';
+import type { BatchStatus, CodeExportWithId, ExportManifest } from '../types/DatabaseTypes';
+
+/**
+ * Result of checking an export file against the signed export manifests
+ */
+export interface ExportVerification {
+  verified: boolean;
+  manifest: ExportManifest | null;
+  exportRecord: {
+    exportId: string;
+    match: 'content' | 'encrypted'; // Which of the export's files was checked
+    signatureValid: boolean;
+    status: string;
+  } | null;
+  providedManifest: { signatureValid: boolean; fileMatches: boolean } | null;
+  batch: {
+    batchId: string;
+    exists: boolean;
+    name: string | null;
+    status: BatchStatus | null;
+    codeCount: number | null;
+    changedSinceExport: number | null; // Codes of the batch changed after the export
+  } | null;
+  problems: string[];
+}
+
+/**
+ * Service for the code export history (codeExports collection)
+ */
+export class ExportService {
+  /**
+   * Get export records, newest first, with pagination
+   *
+   * @param options Filtering and pagination options
+   * @returns Export records and pagination info
+   */
+  static async getExports(options: {
+    pageSize?: number;
+    startAfterDoc?: QueryDocumentSnapshot | null;
+    batchId?: string;
+    userId?: string;
+  } = {}): Promise<{
+    exports: CodeExportWithId[];
+    hasMore: boolean;
+    lastDoc: QueryDocumentSnapshot | null;
+  }> {
+    try {
+      const {
+        pageSize = 20,
+        startAfterDoc = null,
+        batchId,
+        userId
+      } = options;
+
+      let exportsQuery = query(
+        collection(db, 'codeExports'),
+        orderBy('timestamp', 'desc')
+      );
+
+      // Apply filters if provided
+      if (batchId) {
+        exportsQuery = query(exportsQuery, where('batchId', '==', batchId));
+      }
+
+      if (userId) {
+        exportsQuery = query(exportsQuery, where('userId', '==', userId));
+      }
+
+      // Apply pagination
+      if (startAfterDoc) {
+        exportsQuery = query(exportsQuery, startAfter(startAfterDoc));
+      }
+
+      // Apply limit + 1 to check if there are more results
+      exportsQuery = query(exportsQuery, limit(pageSize + 1));
+
+      const snapshot = await getDocs(exportsQuery);
+      const docs = snapshot.docs.slice(0, pageSize);
+
+      return {
+        exports: docs.map(doc => ({ id: doc.id, ...doc.data() } as CodeExportWithId)),
+        hasMore: snapshot.size > pageSize,
+        lastDoc: docs.length > 0 ? docs[docs.length - 1] : null
+      };
+    } catch (error) {
+      console.error('Error getting exports:', error);
+      throw new Error('Failed to load export history');
+    }
+  }
+
+  /**
+   * Flag an export to be kept past the retention period (or clear the flag)
+   *
+   * @param exportId The export record ID
+   * @param keep Whether the retention cleanup must skip this export
+   */
+  static async setKeep(exportId: string, keep: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'codeExports', exportId), { keep });
+    } catch (error) {
+      console.error('Error updating export:', error);
+      throw new Error('Failed to update export');
+    }
+  }
+
+  /**
+   * Get a fresh signed download URL for an existing export file
+   *
+   * @param exportId The export record ID
+   * @returns Download URL and file name
+   */
+  static async getDownloadUrl(
+    exportId: string
+  ): Promise<{ downloadUrl: string; fileName: string }> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const refreshExportUrlFn = httpsCallable<
+        { exportId: string },
+        { downloadUrl: string; fileName: string }
+      >(functions, 'refreshExportUrl');
+
+      const result = await refreshExportUrlFn({ exportId });
+      return result.data;
+    } catch (error: unknown) {
+      console.error('Error refreshing export URL:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to get download link');
+    }
+  }
+
+  /**
+   * Check an export file against the signed export manifests. Only the
+   * file's hash is sent; the file stays in the browser.
+   *
+   * @param sha256 Hex SHA-256 of the file
+   * @param manifestFile Manifest file that came with the export, if any
+   * @returns What matched and any problems found
+   */
+  static async verifyExport(
+    sha256: string,
+    manifestFile?: { manifest: ExportManifest; signature: string } | null
+  ): Promise<ExportVerification> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const verifyExportFn = httpsCallable<
+        { sha256: string; manifest: ExportManifest | null; signature: string | null },
+        ExportVerification
+      >(functions, 'verifyExport');
+
+      const result = await verifyExportFn({
+        sha256,
+        manifest: manifestFile?.manifest || null,
+        signature: manifestFile?.signature || null,
+      });
+      return result.data;
+    } catch (error: unknown) {
+      console.error('Error verifying export:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to verify export');
+    }
+  }
+}
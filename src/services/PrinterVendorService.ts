@@ -0,0 +1,86 @@
+// src/services/PrinterVendorService.ts
+
+import {
+  collection,
+  doc,
+  getDocs,
+  deleteDoc,
+  query,
+  orderBy,
+} from 'firebase/firestore';
+import { auth, db, functions } from '../firebase';
+import { httpsCallable } from 'firebase/functions';
+import { getIdToken } from 'firebase/auth';
+import type { PrinterVendorWithId } from '../types/DatabaseTypes';
+
+/**
+ * Service for printer vendors and the public keys exports are encrypted to
+ */
+export class PrinterVendorService {
+  /**
+   * Get all printer vendors, sorted by name
+   *
+   * @returns Printer vendors
+   */
+  static async getVendors(): Promise<PrinterVendorWithId[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(db, 'printerVendors'), orderBy('name'))
+      );
+
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PrinterVendorWithId));
+    } catch (error) {
+      console.error('Error getting printer vendors:', error);
+      throw new Error('Failed to load printer vendors');
+    }
+  }
+
+  /**
+   * Add a printer vendor or replace its public key. The key is validated by
+   * the savePrinterVendor Cloud Function.
+   *
+   * @param vendor Vendor name and armored OpenPGP public key; vendorId updates an existing vendor
+   * @returns The vendor ID and key fingerprint
+   */
+  static async saveVendor(vendor: {
+    vendorId?: string;
+    name: string;
+    publicKey: string;
+  }): Promise<{ vendorId: string; keyFingerprint: string }> {
+    try {
+      // ─── FORCE-REFRESH the Firebase ID token ───────────────────────
+      if (auth.currentUser) {
+        await getIdToken(auth.currentUser, /* forceRefresh= */ true);
+      }
+      // ────────────────────────────────────────────────────────────────
+
+      const savePrinterVendorFn = httpsCallable<
+        { vendorId?: string; name: string; publicKey: string },
+        { success: boolean; vendorId: string; keyFingerprint: string }
+      >(functions, 'savePrinterVendor');
+
+      const result = await savePrinterVendorFn(vendor);
+      return {
+        vendorId: result.data.vendorId,
+        keyFingerprint: result.data.keyFingerprint
+      };
+    } catch (error: unknown) {
+      console.error('Error saving printer vendor:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to save printer vendor');
+    }
+  }
+
+  /**
+   * Delete a printer vendor. Past exports encrypted to its key are unaffected.
+   *
+   * @param vendorId The vendor ID
+   */
+  static async deleteVendor(vendorId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, 'printerVendors', vendorId));
+    } catch (error) {
+      console.error('Error deleting printer vendor:', error);
+      throw new Error('Failed to delete printer vendor');
+    }
+  }
+}
@@ -1,6 +1,7 @@
 // src/types/DatabaseTypes.ts
 
 import { Timestamp } from 'firebase/firestore';
+import type { CodeStatus } from '../../functions/shared/codeLifecycle.mjs';
 
 /**
  * Admin user base interface - common fields for all admin users
@@ -67,14 +68,71 @@ export interface LoginAttempt {
 }
 
 /**
- * Sticker batch status types
+ * Sticker batch status types ('archived' = in the trash, purged later;
+ * 'deleting' = being purged)
  */
-export type BatchStatus = 'generating' | 'completed' | 'failed';
+export type BatchStatus = 'generating' | 'completed' | 'failed' | 'archived' | 'deleting';
 
 /**
- * Sticker code status types
+ * Sticker code status types (see functions/shared/codeLifecycle.mjs for the
+ * allowed transitions)
  */
-export type CodeStatus = 'available' | 'assigned' | 'disabled';
+export type { CodeStatus };
+
+/**
+ * Stored number of codes per status
+ */
+export type CodeCounts = Partial<Record<CodeStatus, number>>;
+
+/**
+ * Global counters: the baseline in counters/global, set by the
+ * recountCounters function, plus the changes in counters/global/shards/{n}
+ */
+export interface GlobalCounters {
+  batches?: Partial<Record<BatchStatus | 'total', number>>;
+  codes?: CodeCounts;
+  initializedAt?: Timestamp; // Set on the baseline once counted
+}
+
+/**
+ * Generation job status types
+ */
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Generation job in the generationJobs queue, processed by a Cloud Function
+ */
+export interface GenerationJob {
+  batchId: string;
+  status: GenerationJobStatus;
+  attempts: number; // Runs started (a long batch takes several)
+  failures: number; // Failed runs; the job is given up after too many
+  lastError: string | null;
+  createdBy: string;
+  createdAt: Timestamp;
+  startedAt: Timestamp | null;
+  finishedAt: Timestamp | null;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Summary of a batch's current generation job, mirrored onto the batch
+ */
+export interface GenerationJobSummary {
+  id: string;
+  status: GenerationJobStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Timestamp;
+  startedAt: Timestamp | null;
+  finishedAt: Timestamp | null;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Check digit algorithm versions (1 = legacy char sum, 2 = Luhn mod 32)
+ */
+export type CheckDigitVersion = 1 | 2;
 
 /**
  * Sticker batch interface for code generation
@@ -85,11 +143,27 @@ export interface StickerBatch {
   prefix: string;
   codeLength: number;
   quantity: number;
+  includeCheckDigit?: boolean; // Append "-X" check digit to every code
+  checkDigitVersion?: CheckDigitVersion; // Missing on batches using the legacy algorithm
   status: BatchStatus;
   createdAt: Timestamp;
   createdBy: string;
   completedAt: Timestamp | null;
-  generatedCount: number;
+  generatedCount: number; // Checkpoint: codes committed so far
+  codeCounts?: CodeCounts; // Missing on batches created before stored counters
+  generationRunId?: string | null; // Lease held by the run generating codes
+  generationHeartbeatAt?: Timestamp | null; // Last checkpoint of that run
+  lastError?: string | null;
+  generationJob?: GenerationJobSummary;
+  archivedFromStatus?: BatchStatus; // Status restored from the trash
+  archivedAt?: Timestamp;
+  archivedBy?: string;
+  purgeAfter?: Timestamp; // When the purge deletes the batch and its codes
+  assignedOverride?: boolean; // Deleted despite assigned codes
+  deletedCount?: number; // Purge checkpoint: codes deleted so far
+  deleteTotal?: number; // Codes in the batch when the purge started
+  purgeRunId?: string; // Lease held by the run purging the batch
+  purgeHeartbeatAt?: Timestamp; // Last checkpoint of that run
   productType?: string;
   manufacturingDetails?: {
     manufacturer?: string;
@@ -125,6 +199,13 @@ export interface StickerCode {
   assignedTo?: string;
   productType?: string;
   expirationDate?: Timestamp;
+  disabledReason?: string; // Why the code was disabled (e.g. a damaged or stolen roll)
+  disabledAt?: Timestamp;
+  disabledBy?: string;
+  disabledFromStatus?: CodeStatus; // Status a re-enabled code returns to
+  statusReason?: string; // Reason given for the latest status change, when required
+  statusChangedAt?: Timestamp;
+  statusChangedBy?: string;
 }
 
 /**
@@ -132,4 +213,118 @@ export interface StickerCode {
  */
 export interface StickerCodeWithId extends StickerCode {
   id: string; // This is the actual code (e.g., "IFL-ABC123")
-}
\ No newline at end of file
+}
+
+/**
+ * Code history event (stickerCodes/{code}/history), appended on every change
+ */
+export interface CodeHistoryEvent {
+  fromStatus: CodeStatus;
+  toStatus: CodeStatus;
+  fromAssignedTo: string | null;
+  toAssignedTo: string | null;
+  reason: string | null;
+  changedBy: string | null; // UID of the user who made the change
+  changedAt: Timestamp;
+}
+
+/**
+ * Code history event with ID
+ */
+export interface CodeHistoryEventWithId extends CodeHistoryEvent {
+  id: string;
+}
+
+/**
+ * Code export status types
+ */
+export type CodeExportStatus = 'running' | 'completed' | 'failed' | 'expired';
+
+/**
+ * How an export file was encrypted. The ZIP password is never stored.
+ */
+export interface CodeExportEncryption {
+  mode: 'none' | 'zip' | 'pgp';
+  vendorId?: string; // Printer vendor whose key was used (pgp)
+  vendorName?: string | null;
+  keyFingerprint?: string;
+}
+
+/**
+ * Manifest of a completed export, signed by the exportCodes Cloud Function
+ */
+export interface ExportManifest {
+  version: number;
+  exportId: string;
+  batchId: string;
+  batchName: string | null;
+  fileName: string; // Stored (possibly encrypted) file
+  contentFileName: string; // Plain export file (inside the encrypted file)
+  format: CodeExport['format'];
+  encryption: CodeExportEncryption['mode'];
+  codeCount: number;
+  sha256: string; // SHA-256 of the plain export content
+  fileSha256: string | null; // SHA-256 of the encrypted file
+  exportedBy: string;
+  exportedByEmail: string | null;
+  exportedAt: string; // ISO date the export started reading codes
+  signatureAlgorithm: string;
+}
+
+/**
+ * Code export record, written by the exportCodes Cloud Function
+ */
+export interface CodeExport {
+  batchId: string;
+  batchName?: string;
+  userId: string;
+  userEmail?: string | null;
+  fileName: string;
+  format: 'csv' | 'json' | 'excel' | 'pdf';
+  columns?: string[];
+  statuses?: CodeStatus[] | null;
+  createdFrom?: Timestamp | null;
+  createdTo?: Timestamp | null;
+  storagePath: string;
+  encryption?: CodeExportEncryption; // Missing on records from before encryption
+  passwordReceived?: boolean | null; // ZIP exports: whether the browser confirmed it got the password
+  status?: CodeExportStatus; // Missing on records from before progress tracking
+  totalCount?: number; // Expected number of codes
+  exportedCount?: number; // Codes written so far
+  fileSize: number | null;
+  codeCount: number | null;
+  error?: string | null;
+  timestamp: Timestamp;
+  finishedAt?: Timestamp | null;
+  keep?: boolean; // Exempt from the retention cleanup
+  expiredAt?: Timestamp | null; // When the cleanup deleted the file
+  manifest?: ExportManifest; // Set once completed; missing on older records
+  signature?: string; // HMAC of the manifest
+}
+
+/**
+ * Code export with ID field - used when retrieving from Firestore
+ */
+export interface CodeExportWithId extends CodeExport {
+  id: string;
+}
+
+/**
+ * Printer vendor with the OpenPGP public key exports can be encrypted to
+ */
+export interface PrinterVendor {
+  name: string;
+  publicKey: string; // Armored OpenPGP public key
+  keyFingerprint: string;
+  keyUserIds?: string[];
+  createdAt?: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy: string;
+}
+
+/**
+ * Printer vendor with ID field - used when retrieving from Firestore
+ */
+export interface PrinterVendorWithId extends PrinterVendor {
+  id: string;
+}
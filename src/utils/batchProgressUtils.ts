@@ -0,0 +1,55 @@
+// src/utils/batchProgressUtils.ts
+
+import type { StickerBatch } from '../types/DatabaseTypes';
+
+/**
+ * Utilities for showing batch generation progress
+ */
+
+/**
+ * A generated-count observation at a point in time
+ */
+export interface ProgressSample {
+  count: number;
+  time: number;
+}
+
+/**
+ * Calculate a batch's generation progress
+ * @param batch The batch
+ * @returns Progress percentage (0-100)
+ */
+export function getProgressPercentage(batch: StickerBatch): number {
+  if (batch.status === 'completed') {
+    return 100;
+  }
+  
+  if (!batch.quantity) {
+    return 0;
+  }
+  
+  return Math.min(Math.round((batch.generatedCount / batch.quantity) * 100), 100);
+}
+
+/**
+ * Estimate the time left for a generating batch from two observations
+ * @param first The earliest observation
+ * @param latest The latest observation
+ * @param total The batch quantity
+ * @returns Milliseconds remaining, or null while there is no measurable rate
+ */
+export function estimateRemainingMs(
+  first: ProgressSample,
+  latest: ProgressSample,
+  total: number
+): number | null {
+  const generated = latest.count - first.count;
+  const elapsed = latest.time - first.time;
+  
+  if (generated <= 0 || elapsed <= 0) {
+    return null;
+  }
+  
+  const remaining = Math.max(total - latest.count, 0);
+  return (remaining / generated) * elapsed;
+}
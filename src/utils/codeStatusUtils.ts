@@ -0,0 +1,27 @@
+// src/utils/codeStatusUtils.ts
+
+import type { CodeStatus } from '../types/DatabaseTypes';
+
+export { CODE_STATUSES, CODE_STATUS_LABELS } from '../../functions/shared/codeLifecycle.mjs';
+
+/**
+ * Display helpers for code lifecycle statuses
+ */
+
+const CODE_STATUS_COLORS: Record<CodeStatus, 'default' | 'primary' | 'secondary' | 'success' | 'info' | 'warning' | 'error'> = {
+  available: 'success',
+  printed: 'info',
+  shipped: 'info',
+  assigned: 'primary',
+  activated: 'secondary',
+  'lost-reported': 'warning',
+  disabled: 'error',
+  retired: 'default',
+};
+
+/**
+ * Chip color for a code status
+ */
+export function getCodeStatusColor(status: CodeStatus) {
+  return CODE_STATUS_COLORS[status] || 'default';
+}
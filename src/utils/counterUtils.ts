@@ -0,0 +1,63 @@
+// src/utils/counterUtils.ts
+
+import { collection, doc, increment } from 'firebase/firestore';
+import type { FieldValue } from 'firebase/firestore';
+import { db } from '../firebase';
+import type { BatchStatus } from '../types/DatabaseTypes';
+
+/**
+ * Helpers for the stored status counters (see functions/counters.js).
+ * Counters are written in the same write batch or transaction as the change
+ * they count, merged into a random counters/global shard with { merge: true }.
+ */
+
+// Shards global counter changes are spread over (as in functions/counters.js)
+const COUNTER_SHARDS = 10;
+
+/**
+ * Reference to the global counters document (the recount baseline)
+ */
+export function globalCountersRef() {
+  return doc(db, 'counters', 'global');
+}
+
+/**
+ * Reference to the global counters shards
+ */
+export function globalCounterShardsRef() {
+  return collection(db, 'counters', 'global', 'shards');
+}
+
+/**
+ * Reference to a random global counters shard, for writing a change
+ */
+export function globalCounterShardRef() {
+  return doc(globalCounterShardsRef(), String(Math.floor(Math.random() * COUNTER_SHARDS)));
+}
+
+/**
+ * Global counter data recording a batch status change
+ * @param fromStatus Previous status (null for a new batch)
+ * @param toStatus New status (null for a deleted batch)
+ * @returns Data to merge into a counters/global shard
+ */
+export function batchStatusCounterData(
+  fromStatus: BatchStatus | null,
+  toStatus: BatchStatus | null
+): { batches: Record<string, FieldValue> } {
+  const batches: Record<string, FieldValue> = {};
+
+  if (fromStatus) {
+    batches[fromStatus] = increment(-1);
+  } else {
+    batches.total = increment(1);
+  }
+
+  if (toStatus) {
+    batches[toStatus] = increment(1);
+  } else {
+    batches.total = increment(-1);
+  }
+
+  return { batches };
+}
@@ -0,0 +1,72 @@
+// src/utils/exportManifestUtils.ts
+
+import type { CodeExportWithId, ExportManifest } from '../types/DatabaseTypes';
+
+/**
+ * Helpers for export manifest files (see functions/exportManifest.js).
+ * A manifest file holds the signed manifest of one export and travels
+ * next to the export file.
+ */
+
+export interface ExportManifestFile {
+  manifest: ExportManifest;
+  signature: string;
+}
+
+/**
+ * Hex SHA-256 of a file, computed in the browser
+ */
+export async function sha256File(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Name of the manifest file for an export
+ */
+export function getManifestFileName(fileName: string): string {
+  return `${fileName}.manifest.json`;
+}
+
+/**
+ * Download the manifest file of a completed export
+ */
+export function downloadManifest(record: CodeExportWithId): void {
+  if (!record.manifest || !record.signature) return;
+
+  const manifestFile: ExportManifestFile = {
+    manifest: record.manifest,
+    signature: record.signature,
+  };
+  const blob = new Blob([JSON.stringify(manifestFile, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getManifestFileName(record.fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a manifest file picked by the user
+ * @throws {Error} When the file is not a manifest file
+ */
+export async function readManifestFile(file: Blob): Promise<ExportManifestFile> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The manifest file is not valid JSON');
+  }
+
+  const candidate = parsed as Partial<ExportManifestFile> | null;
+  if (!candidate || typeof candidate.manifest !== 'object' || typeof candidate.signature !== 'string') {
+    throw new Error('The file is not an export manifest');
+  }
+  return candidate as ExportManifestFile;
+}